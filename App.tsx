@@ -4,17 +4,28 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { GeneratedImage } from './types';
-import { initDB, saveImageToDB, removeImageFromDB, getAllSavedImages } from './services/db';
+import { AspectRatio, GeneratedImage, ImageResolution } from './types';
+import { initDB, saveImageToDB, removeImageFromDB, getAllSavedImages, pruneOrphanedVideos, saveVersionTree, getVersionTree, removeVersionTree } from './services/db';
+import { getLineage, getRootId } from './services/versionTree';
 import { useInfographicSession } from './hooks/useInfographicSession';
+import { useBatchQueue } from './hooks/useBatchQueue';
 import Infographic from './components/Infographic';
 import Loading from './components/Loading';
 import IntroScreen from './components/IntroScreen';
 import SearchResults from './components/SearchResults';
 import LibraryModal from './components/LibraryModal';
 import TutorialOverlay from './components/TutorialOverlay';
-import { transcribeAndParseIntent } from './services/geminiService';
-import { Search, AlertCircle, GraduationCap, Palette, Atom, Sun, Moon, BookMarked, Mic, MicOff, Loader2, Sparkles, Wand2 } from 'lucide-react';
+import PlanReview from './components/PlanReview';
+import VariantGrid from './components/VariantGrid';
+import BatchModal from './components/BatchModal';
+import JobsTray from './components/JobsTray';
+import VersionTree from './components/VersionTree';
+import { getProvider } from './services/provider';
+import { Search, AlertCircle, GraduationCap, Palette, Atom, Sun, Moon, BookMarked, Mic, MicOff, Loader2, Sparkles, Wand2, RectangleHorizontal, RotateCcw, ClipboardList, LayoutGrid, GalleryHorizontal, ListChecks, TextCursorInput } from 'lucide-react';
+
+// Share links are user-editable, so only values the image API accepts get through
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1'];
+const RESOLUTIONS: ImageResolution[] = ['1K', '2K', '4K'];
 
 const App: React.FC = () => {
   const [showIntro, setShowIntro] = useState(true);
@@ -26,6 +37,7 @@ const App: React.FC = () => {
   const [checkingKey, setCheckingKey] = useState(true);
   const [savedImages, setSavedImages] = useState<GeneratedImage[]>([]);
   const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
   const [showTutorial, setShowTutorial] = useState(false);
   
   // Voice Input State
@@ -38,12 +50,28 @@ const App: React.FC = () => {
     complexityLevel, setComplexityLevel,
     visualStyle, setVisualStyle,
     language, setLanguage,
+    aspectRatio, setAspectRatio,
+    imageResolution, setImageResolution,
     isLoading, loadingMessage, loadingStep, loadingFacts, error, setError,
-    imageHistory, setImageHistory, historyIndex, setHistoryIndex,
+    failedStage, handleRetryStage, handleCancel, handleRunInBackground,
+    imageHistory, currentImage, historyIndex, selectImage, restoreImage,
     currentSearchResults, setCurrentSearchResults,
-    handleGenerate, handleAnimate, handleEdit, handleVerify, handleRefreshNews,
-    handleAutoGenerate
+    handleGenerate, handleAnimate, handleEdit, handleVerify, handleNarrate, handleRefreshNews,
+    handleAutoGenerate, handleBranch, handleAnnotationsChange, handleTextOverlayChange,
+    handleLocateFacts, handleExplainFact, handleAskRegion, handleAutoRepair, handleExtractText,
+    handleFixSpelling, handleDescribe, handleDescriptionChange,
+    reviewPlan, setReviewPlan, pendingPlan, handleApprovePlan, handleDiscardPlan,
+    variantCount, setVariantCount, autoRankVariants, setAutoRankVariants,
+    variantCandidates, handleChooseVariant, handleDiscardVariants,
+    seriesMode, setSeriesMode, textOverlayMode, setTextOverlayMode,
+    jobs, isJobRunning, handleCancelJob, dismissJob, clearFinishedJobs, handleOpenJobImage
   } = useInfographicSession({
+      onAuthError: () => setHasApiKey(false),
+      onVideoReady: (imageId, videoUri) => setSavedImages(prev => prev.map(img => img.id === imageId ? { ...img, videoUri } : img))
+  });
+
+  const batch = useBatchQueue({
+      onImageSaved: (image) => setSavedImages(prev => [...prev, image]),
       onAuthError: () => setHasApiKey(false)
   });
 
@@ -58,12 +86,14 @@ const App: React.FC = () => {
         
         const l = (params.get('l') as any) || 'High School';
         const s = (params.get('s') as any) || 'Default';
+        const ar = ASPECT_RATIOS.find(value => value === params.get('ar')) || '16:9';
+        const res = RESOLUTIONS.find(value => value === params.get('res')) || '1K';
         
         // Clean URL to prevent re-triggering on refresh
         window.history.replaceState({}, '', window.location.pathname);
         
         // Auto generate content
-        handleAutoGenerate(q, l, s, 'English');
+        handleAutoGenerate(q, l, s, 'English', ar, res);
     }
   }, []);
 
@@ -76,7 +106,8 @@ const App: React.FC = () => {
   useEffect(() => {
     const checkKey = async () => {
       try {
-        if (window.aistudio && window.aistudio.hasSelectedApiKey) {
+        if (!getProvider().requiresApiKey) { setHasApiKey(true); }
+        else if (window.aistudio && window.aistudio.hasSelectedApiKey) {
           const hasKey = await window.aistudio.hasSelectedApiKey();
           setHasApiKey(hasKey);
         } else { setHasApiKey(true); }
@@ -87,6 +118,7 @@ const App: React.FC = () => {
     const setupDB = async () => {
         try { 
           await initDB(); 
+          await pruneOrphanedVideos();
           const saved = await getAllSavedImages(); 
           setSavedImages(saved); 
           
@@ -108,27 +140,73 @@ const App: React.FC = () => {
     }
   };
 
-  const restoreImage = (img: GeneratedImage) => {
-     const idx = imageHistory.findIndex(i => i.id === img.id);
-     if (idx !== -1) { setHistoryIndex(idx); } 
-     else { setImageHistory([img, ...imageHistory]); setHistoryIndex(0); if (img.originalTopic) setTopic(img.originalTopic); }
+  // Keep the stored version tree, annotations, overlay text, hotspots, verifications and extracted text of every saved item in step with this session.
+  // Debounced, since dragging an annotation changes the image on every pointer move.
+  const persistedLineagesRef = useRef(new Map<string, GeneratedImage[]>());
+  useEffect(() => {
+      const timer = setTimeout(() => {
+          const savedRoots = new Set(savedImages.map(getRootId));
+          savedRoots.forEach(rootId => {
+              const lineage = getLineage(imageHistory, rootId);
+              const persisted = persistedLineagesRef.current.get(rootId);
+              if (lineage.length === 0 || (persisted && persisted.length === lineage.length && persisted.every((img, i) => img === lineage[i]))) return;
+              persistedLineagesRef.current.set(rootId, lineage);
+              saveVersionTree(rootId, lineage).catch(console.error);
+          });
+
+          const layersOf = (img: GeneratedImage) => ({ annotations: img.annotations, textOverlay: img.textOverlay, factHotspots: img.factHotspots, verification: img.verification, verificationRuns: img.verificationRuns, extractedText: img.extractedText, description: img.description });
+          const changed = savedImages
+              .map(saved => ({ saved, live: imageHistory.find(img => img.id === saved.id) }))
+              .filter(({ saved, live }) => live && (Object.keys(layersOf(live)) as (keyof GeneratedImage)[]).some(key => live[key] !== saved[key]));
+          if (changed.length === 0) return;
+          changed.forEach(({ saved, live }) => saveImageToDB({ ...saved, ...layersOf(live!) }).catch(console.error));
+          setSavedImages(prev => prev.map(saved => {
+              const match = changed.find(c => c.saved.id === saved.id);
+              return match ? { ...saved, ...layersOf(match.live!) } : saved;
+          }));
+      }, 500);
+      return () => clearTimeout(timer);
+  }, [imageHistory, savedImages]);
+
+  const forgetVersionTreeIfUnused = async (removed: GeneratedImage, remaining: GeneratedImage[]) => {
+      const rootId = getRootId(removed);
+      if (remaining.some(img => getRootId(img) === rootId)) return;
+      persistedLineagesRef.current.delete(rootId);
+      await removeVersionTree(rootId);
+  };
+
+  const handleOpenFromLibrary = async (img: GeneratedImage) => {
+     if (!imageHistory.some(i => i.id === img.id) && img.originalTopic) setTopic(img.originalTopic);
+     let versions: GeneratedImage[] = [];
+     try { versions = await getVersionTree(getRootId(img)); } catch (e) { console.error(e); }
+     restoreImage(img, versions);
      setIsLibraryOpen(false);
      window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleToggleSave = async () => {
-      if (imageHistory.length === 0) return;
-      const currentImage = imageHistory[historyIndex];
+      if (!currentImage) return;
       const isSaved = savedImages.some(img => img.id === currentImage.id);
       try {
-          if (isSaved) { await removeImageFromDB(currentImage.id); setSavedImages(savedImages.filter(img => img.id !== currentImage.id)); } 
+          if (isSaved) {
+              const remaining = savedImages.filter(img => img.id !== currentImage.id);
+              await removeImageFromDB(currentImage.id);
+              await forgetVersionTreeIfUnused(currentImage, remaining);
+              setSavedImages(remaining);
+          } 
           else { await saveImageToDB(currentImage); setSavedImages([...savedImages, currentImage]); }
       } catch (e) { setError("Library update failed."); }
   };
 
   const handleDeleteFromLibrary = async (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
-      try { await removeImageFromDB(id); setSavedImages(savedImages.filter(img => img.id !== id)); } catch (e) {}
+      const removed = savedImages.find(img => img.id === id);
+      const remaining = savedImages.filter(img => img.id !== id);
+      try {
+          await removeImageFromDB(id);
+          if (removed) await forgetVersionTreeIfUnused(removed, remaining);
+          setSavedImages(remaining);
+      } catch (e) {}
   };
 
   const handleStartRecording = async () => {
@@ -150,7 +228,7 @@ const App: React.FC = () => {
           reader.readAsDataURL(audioBlob);
           reader.onloadend = async () => {
             const base64Audio = (reader.result as string).split(',')[1];
-            const intent = await transcribeAndParseIntent(base64Audio);
+            const intent = await getProvider().transcribeAndParseIntent(base64Audio);
             if (intent.topic) setTopic(intent.topic);
             if (intent.level) setComplexityLevel(intent.level as any);
             setError(null);
@@ -198,7 +276,30 @@ const App: React.FC = () => {
   return (
     <>
     {!checkingKey && !hasApiKey && <KeySelectionModal />}
-    <LibraryModal isOpen={isLibraryOpen} onClose={() => setIsLibraryOpen(false)} images={savedImages} onSelect={restoreImage} onDelete={handleDeleteFromLibrary} />
+    <BatchModal
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        defaults={{ level: complexityLevel, style: visualStyle, language }}
+        aspectRatio={aspectRatio}
+        resolution={imageResolution}
+        items={batch.items}
+        issues={batch.issues}
+        isRunning={batch.isRunning}
+        onLoadInput={batch.loadInput}
+        onStart={batch.start}
+        onRetryFailed={batch.retryFailed}
+        onCancel={batch.cancel}
+        onClear={batch.clear}
+    />
+    <JobsTray
+        jobs={jobs}
+        onCancel={handleCancelJob}
+        onDismiss={dismissJob}
+        onClearFinished={clearFinishedJobs}
+        onOpenImage={handleOpenJobImage}
+        canOpenImage={(imageId) => imageHistory.some(img => img.id === imageId)}
+    />
+    <LibraryModal isOpen={isLibraryOpen} onClose={() => setIsLibraryOpen(false)} images={savedImages} onSelect={handleOpenFromLibrary} onDelete={handleDeleteFromLibrary} />
     
     {/* Only show tutorial if intro is finished */}
     {!showIntro && showTutorial && <TutorialOverlay onComplete={handleFinishTutorial} />}
@@ -216,6 +317,10 @@ const App: React.FC = () => {
             <span className="font-display font-bold text-lg md:text-2xl tracking-tight">InfoGenius <span className="text-cyan-600 dark:text-cyan-400">Vision</span></span>
           </div>
           <div className="flex items-center gap-3">
+              <button onClick={() => setIsBatchOpen(true)} className="flex items-center gap-2 px-3 py-2 md:px-4 md:py-2 rounded-xl bg-cyan-50 dark:bg-cyan-900/20 text-cyan-700 dark:text-cyan-400 text-xs font-bold border border-cyan-200 dark:border-cyan-700/30 hover:brightness-110 transition-all">
+                {batch.isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ListChecks className="w-4 h-4" />}
+                <span className="hidden md:inline">Batch{batch.items.length > 0 ? ` (${batch.items.filter(item => item.status === 'done').length}/${batch.items.length})` : ''}</span>
+              </button>
               <button id="step-library" onClick={() => setIsLibraryOpen(true)} className="flex items-center gap-2 px-3 py-2 md:px-4 md:py-2 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 text-xs font-bold border border-amber-200 dark:border-amber-700/30 hover:brightness-110 transition-all">
                 <BookMarked className="w-4 h-4" />
                 <span className="hidden md:inline">Library ({savedImages.length})</span>
@@ -325,43 +430,148 @@ const App: React.FC = () => {
                           </select>
                         </div>
                     </div>
+                    <div className="flex-1 bg-slate-50 dark:bg-slate-950/40 rounded-[1.5rem] border border-slate-100 dark:border-white/5 px-6 py-4 flex items-center gap-4 transition-all hover:bg-white dark:hover:bg-slate-850 hover:shadow-sm">
+                        <div className="p-2 rounded-xl bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600">
+                          <RectangleHorizontal className="w-5 h-5" />
+                        </div>
+                        <div className="flex flex-col w-full">
+                          <label className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-1">Format</label>
+                          <div className="flex gap-2">
+                            <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value as any)} className="bg-transparent border-none text-base font-bold w-full outline-none text-slate-800 dark:text-white cursor-pointer">
+                              <option value="16:9" className="bg-black text-white">Slide 16:9</option>
+                              <option value="9:16" className="bg-black text-white">Poster 9:16</option>
+                              <option value="1:1" className="bg-black text-white">Square 1:1</option>
+                            </select>
+                            <select value={imageResolution} onChange={(e) => setImageResolution(e.target.value as any)} className="bg-transparent border-none text-base font-bold outline-none text-slate-800 dark:text-white cursor-pointer">
+                              <option value="1K" className="bg-black text-white">1K</option>
+                              <option value="2K" className="bg-black text-white">2K</option>
+                              <option value="4K" className="bg-black text-white">4K</option>
+                            </select>
+                          </div>
+                        </div>
+                    </div>
                     <button type="submit" disabled={isLoading || !topic.trim()} className={`w-full md:w-auto px-10 py-5 rounded-[1.5rem] font-bold flex items-center justify-center gap-3 shadow-xl transition-all transform hover:scale-[1.02] active:scale-[0.98] ${!topic.trim() ? 'bg-slate-100 text-slate-400 dark:bg-slate-800 dark:text-slate-600' : 'bg-gradient-to-r from-cyan-600 to-indigo-600 text-white shadow-cyan-600/20'}`}>
-                      <span>RESEARCH & GENERATE</span>
+                      <span>{seriesMode ? 'RESEARCH SERIES' : reviewPlan ? 'RESEARCH & REVIEW' : 'RESEARCH & GENERATE'}</span>
                       <Wand2 className="w-5 h-5" />
                     </button>
                 </div>
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-2 px-6 pb-3 text-xs font-bold text-slate-500 dark:text-slate-400">
+                    <label className="flex items-center gap-2 cursor-pointer select-none">
+                        <input type="checkbox" checked={seriesMode} onChange={(e) => setSeriesMode(e.target.checked)} className="accent-cyan-600" />
+                        <GalleryHorizontal className="w-4 h-4" />
+                        Series mode (multi-panel)
+                    </label>
+                    {/* Series panels are planned and rendered in one pass, so review and variants do not apply */}
+                    {!seriesMode && (
+                      <>
+                        <label className="flex items-center gap-2 cursor-pointer select-none">
+                            <input type="checkbox" checked={reviewPlan} onChange={(e) => setReviewPlan(e.target.checked)} className="accent-cyan-600" />
+                            <ClipboardList className="w-4 h-4" />
+                            Review research plan before rendering
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer select-none">
+                            <input type="checkbox" checked={textOverlayMode} onChange={(e) => setTextOverlayMode(e.target.checked)} className="accent-cyan-600" />
+                            <TextCursorInput className="w-4 h-4" />
+                            Editable text overlay
+                        </label>
+                        <label className="flex items-center gap-2 select-none">
+                            <LayoutGrid className="w-4 h-4" />
+                            Variants
+                            <select value={variantCount} onChange={(e) => setVariantCount(Number(e.target.value))} className="bg-transparent border-none font-bold outline-none text-slate-800 dark:text-white cursor-pointer">
+                                {[1, 2, 3, 4].map(n => <option key={n} value={n} className="bg-black text-white">{n}</option>)}
+                            </select>
+                        </label>
+                        {variantCount > 1 && (
+                            <label className="flex items-center gap-2 cursor-pointer select-none">
+                                <input type="checkbox" checked={autoRankVariants} onChange={(e) => setAutoRankVariants(e.target.checked)} className="accent-cyan-600" />
+                                Auto-rank by accuracy
+                            </label>
+                        )}
+                      </>
+                    )}
+                </div>
             </div>
           </form>
         </div>
 
-        {isLoading && <Loading status={loadingMessage} step={loadingStep} facts={loadingFacts} />}
+        {isLoading && <Loading status={loadingMessage} step={loadingStep} facts={loadingFacts} onCancel={handleCancel} onBackground={handleRunInBackground} />}
         
         {error && <div className="max-w-3xl mx-auto mt-12 p-8 bg-red-50 dark:bg-red-950/20 border-2 border-red-100 dark:border-red-900/30 rounded-[2rem] flex items-center gap-6 text-red-800 dark:text-red-200 animate-in shake duration-500 shadow-xl shadow-red-500/5">
           <div className="p-4 bg-red-100 dark:bg-red-900/40 rounded-2xl">
             <AlertCircle className="w-8 h-8 flex-shrink-0 text-red-500" />
           </div>
-          <div>
+          <div className="flex-1">
             <h4 className="font-bold text-lg mb-1">Heads up!</h4>
             <p className="font-medium opacity-80 leading-relaxed">{error}</p>
           </div>
+          {failedStage && (
+            <button onClick={handleRetryStage} className="flex-shrink-0 flex items-center gap-2 px-5 py-3 rounded-xl bg-red-600 text-white font-bold text-sm shadow-lg hover:brightness-110 transition-all">
+              <RotateCcw className="w-4 h-4" /> Retry {failedStage.label}
+            </button>
+          )}
         </div>}
 
-        {imageHistory.length > 0 && !isLoading && (
+        {pendingPlan && !isLoading && (
+            <PlanReview
+                key={pendingPlan.research.imagePrompt}
+                research={pendingPlan.research}
+                onApprove={handleApprovePlan}
+                onDiscard={handleDiscardPlan}
+            />
+        )}
+
+        {variantCandidates && !isLoading && (
+            <VariantGrid
+                candidates={variantCandidates}
+                onChoose={handleChooseVariant}
+                onDiscard={handleDiscardVariants}
+            />
+        )}
+
+        {currentImage && !isLoading && !pendingPlan && !variantCandidates && (
             <div className="animate-in slide-in-from-bottom-12 duration-1000">
                 <Infographic 
-                    key={imageHistory[historyIndex].id}
-                    image={imageHistory[historyIndex]} 
+                    key={currentImage.id}
+                    image={currentImage} 
                     onEdit={handleEdit} 
                     onVerify={handleVerify}
                     onAnimate={handleAnimate}
-                    isEditing={isLoading}
+                    onNarrate={handleNarrate}
+                    isEditing={isJobRunning('edit', currentImage.id)}
+                    isVerifying={isJobRunning('verify', currentImage.id)}
+                    isAnimating={isJobRunning('animate', currentImage.id)}
+                    isNarrating={isJobRunning('narrate', currentImage.id)}
                     onRefreshNews={handleRefreshNews}
                     historyIndex={historyIndex}
                     historyTotal={imageHistory.length}
-                    isSaved={savedImages.some(img => img.id === imageHistory[historyIndex].id)}
+                    isSaved={savedImages.some(img => img.id === currentImage.id)}
                     onToggleSave={handleToggleSave}
+                    versions={getLineage(imageHistory, getRootId(currentImage))}
+                    onAnnotationsChange={handleAnnotationsChange}
+                    onTextOverlayChange={handleTextOverlayChange}
+                    onLocateFacts={handleLocateFacts}
+                    onExplainFact={handleExplainFact}
+                    onAskRegion={handleAskRegion}
+                    onAutoRepair={handleAutoRepair}
+                    onSelectVersion={selectImage}
+                    onExtractText={handleExtractText}
+                    onFixSpelling={handleFixSpelling}
+                    onDescribe={handleDescribe}
+                    onDescriptionChange={handleDescriptionChange}
+                    isLocating={isJobRunning('locate', currentImage.id)}
+                    isExplaining={isJobRunning('explain', currentImage.id)}
+                    isRepairing={isJobRunning('repair', currentImage.id)}
+                    isExtracting={isJobRunning('extract', currentImage.id)}
+                    isDescribing={isJobRunning('describe', currentImage.id)}
+                />
+                <VersionTree
+                    images={imageHistory}
+                    currentImage={currentImage}
+                    onSelect={selectImage}
+                    onBranch={handleBranch}
+                    isBranching={(imageId) => isJobRunning('edit', imageId)}
                 />
-                <SearchResults results={currentSearchResults} />
+                <SearchResults results={currentSearchResults} facts={currentImage.facts} />
             </div>
         )}
       </main>
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { Annotation, AnnotationKind } from '../types';
+import { loadImage } from '../services/imageUtils';
+import { getAnnotationMetrics, getAnnotationFont, getCalloutNumbers, getTextBoxLayout, getCalloutLabelLayout, getArrowHead } from '../services/annotations';
+
+interface AnnotationLayerProps {
+  src: string; // Image under the layer; the SVG uses its pixel size as the viewBox
+  annotations: Annotation[];
+  editable?: boolean;
+  tool?: AnnotationKind | null; // null selects and moves existing annotations
+  color?: string;
+  selectedId?: string | null;
+  onSelect?: (id: string | null) => void;
+  onCreate?: (annotation: Annotation) => void;
+  onUpdate?: (id: string, changes: Partial<Annotation>) => void;
+}
+
+type Drag =
+  | { mode: 'draw'; draft: Annotation }
+  | { mode: 'move'; id: string; startX: number; startY: number; origin: Annotation };
+
+const MIN_DRAW_SIZE = 0.01; // Smaller drags are treated as a stray click
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  src, annotations, editable = false, tool = null, color = '#ef4444', selectedId = null, onSelect, onCreate, onUpdate
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src)
+      .then(img => { if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [src]);
+
+  if (!size) return null;
+  const { width, height } = size;
+  const metrics = getAnnotationMetrics(width);
+  const font = getAnnotationFont(metrics);
+  const numbers = getCalloutNumbers(annotations);
+
+  // Maps a pointer to image fractions, accounting for the letterboxing of preserveAspectRatio
+  const toPoint = (e: React.PointerEvent) => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const local = point.matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x: clamp(local.x / width), y: clamp(local.y / height) };
+  };
+
+  const handleBackgroundDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!editable) return;
+    onSelect?.(null);
+    if (!tool) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toPoint(e);
+    setDrag({ mode: 'draw', draft: { id: `annotation-${Date.now()}`, kind: tool, x, y, x2: x, y2: y, color, text: tool === 'text' ? 'Text' : undefined } });
+  };
+
+  const handleAnnotationDown = (e: React.PointerEvent, a: Annotation) => {
+    if (!editable || tool) return;
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    onSelect?.(a.id);
+    const { x, y } = toPoint(e);
+    setDrag({ mode: 'move', id: a.id, startX: x, startY: y, origin: a });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const { x, y } = toPoint(e);
+    if (drag.mode === 'draw') {
+      if (drag.draft.kind !== 'callout') setDrag({ mode: 'draw', draft: { ...drag.draft, x2: x, y2: y } });
+      return;
+    }
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    const { origin } = drag;
+    onUpdate?.(drag.id, { x: origin.x + dx, y: origin.y + dy, x2: origin.x2 + dx, y2: origin.y2 + dy });
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.mode === 'draw') {
+      const { draft } = drag;
+      const isBigEnough = Math.max(Math.abs(draft.x2 - draft.x), Math.abs(draft.y2 - draft.y)) >= MIN_DRAW_SIZE;
+      if (draft.kind === 'callout' || isBigEnough) {
+        onCreate?.(draft);
+        onSelect?.(draft.id);
+      }
+    }
+    setDrag(null);
+  };
+
+  const renderLines = (lines: string[], left: number, top: number, fill: string, halo: boolean) => (
+    <text x={left} y={top} fill={fill} style={{ font }} dominantBaseline="text-before-edge" stroke={halo ? '#ffffff' : undefined} strokeWidth={halo ? metrics.stroke * 1.5 : undefined} paintOrder="stroke">
+      {lines.map((line, i) => <tspan key={i} x={left} y={top + i * metrics.lineHeight}>{line}</tspan>)}
+    </text>
+  );
+
+  const renderAnnotation = (a: Annotation) => {
+    const isSelected = a.id === selectedId;
+    const selectionProps = isSelected ? { stroke: '#06b6d4', strokeWidth: metrics.stroke, strokeDasharray: `${metrics.stroke * 3} ${metrics.stroke * 2}`, fill: 'none' } : null;
+
+    switch (a.kind) {
+      case 'arrow': {
+        const head = getArrowHead(a, width, height, metrics);
+        return (
+          <>
+            {isSelected && <line x1={a.x * width} y1={a.y * height} x2={a.x2 * width} y2={a.y2 * height} stroke="#06b6d4" strokeOpacity={0.4} strokeWidth={metrics.stroke * 4} strokeLinecap="round" />}
+            <line x1={a.x * width} y1={a.y * height} x2={a.x2 * width} y2={a.y2 * height} stroke={a.color} strokeWidth={metrics.stroke} strokeLinecap="round" />
+            {/* Wide invisible hit area so thin arrows are easy to grab */}
+            <line x1={a.x * width} y1={a.y * height} x2={a.x2 * width} y2={a.y2 * height} stroke="transparent" strokeWidth={metrics.stroke * 6} />
+            <polygon points={head.map(p => p.join(',')).join(' ')} fill={a.color} />
+          </>
+        );
+      }
+      case 'highlight': {
+        const box = { x: Math.min(a.x, a.x2) * width, y: Math.min(a.y, a.y2) * height, width: Math.abs(a.x2 - a.x) * width, height: Math.abs(a.y2 - a.y) * height };
+        return (
+          <>
+            <rect {...box} fill={a.color} fillOpacity={0.3} />
+            {selectionProps && <rect {...box} {...selectionProps} />}
+          </>
+        );
+      }
+      case 'text': {
+        const box = getTextBoxLayout(a, width, height, metrics);
+        return (
+          <>
+            <rect x={box.left} y={box.top} width={box.width} height={box.height} fill="#ffffff" fillOpacity={0.92} stroke={a.color} strokeWidth={metrics.stroke} />
+            {renderLines(box.lines, box.left + metrics.padding, box.top + metrics.padding, a.color, false)}
+            {selectionProps && <rect x={box.left - metrics.stroke * 2} y={box.top - metrics.stroke * 2} width={box.width + metrics.stroke * 4} height={box.height + metrics.stroke * 4} {...selectionProps} />}
+          </>
+        );
+      }
+      case 'callout': {
+        const label = getCalloutLabelLayout(a, width, height, metrics);
+        return (
+          <>
+            <circle cx={a.x * width} cy={a.y * height} r={metrics.calloutRadius} fill={a.color} />
+            <text x={a.x * width} y={a.y * height} fill="#ffffff" style={{ font }} textAnchor="middle" dominantBaseline="central">{numbers.get(a.id)}</text>
+            {label.lines.length > 0 && renderLines(label.lines, label.left, label.top, a.color, true)}
+            {selectionProps && <circle cx={a.x * width} cy={a.y * height} r={metrics.calloutRadius * 1.4} {...selectionProps} />}
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      onPointerDown={handleBackgroundDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`absolute inset-0 w-full h-full z-20 ${editable ? `touch-none ${tool ? 'cursor-crosshair' : 'cursor-default'}` : 'pointer-events-none'}`}
+    >
+      {annotations.map(a => (
+        <g key={a.id} onPointerDown={(e) => handleAnnotationDown(e, a)} className={editable && !tool ? 'cursor-move' : undefined}>
+          {renderAnnotation(a)}
+        </g>
+      ))}
+      {drag?.mode === 'draw' && <g opacity={0.7}>{renderAnnotation(drag.draft)}</g>}
+    </svg>
+  );
+};
+
+export default AnnotationLayer;
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { AspectRatio, BatchItem, BatchItemStatus, ImageResolution } from '../types';
+import { BatchDefaults } from '../services/batch';
+import { BatchRunOptions, MAX_BATCH_CONCURRENCY } from '../hooks/useBatchQueue';
+import { X, ListChecks, Upload, Play, Square, RotateCcw, Trash2, Loader2, Check, AlertTriangle, Clock } from 'lucide-react';
+
+interface BatchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaults: BatchDefaults;
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+  items: BatchItem[];
+  issues: string[];
+  isRunning: boolean;
+  onLoadInput: (text: string, defaults: BatchDefaults) => void;
+  onStart: (options: BatchRunOptions) => void;
+  onRetryFailed: (options: BatchRunOptions) => void;
+  onCancel: () => void;
+  onClear: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+  researching: 'bg-cyan-50 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-300',
+  rendering: 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300',
+  done: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  failed: 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  cancelled: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+};
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'researching':
+    case 'rendering': return <Loader2 className="w-3 h-3 animate-spin" />;
+    case 'done': return <Check className="w-3 h-3" />;
+    case 'failed':
+    case 'cancelled': return <AlertTriangle className="w-3 h-3" />;
+    default: return <Clock className="w-3 h-3" />;
+  }
+};
+
+const BatchModal: React.FC<BatchModalProps> = ({
+  isOpen, onClose, defaults, aspectRatio, resolution,
+  items, issues, isRunning, onLoadInput, onStart, onRetryFailed, onCancel, onClear
+}) => {
+  const [input, setInput] = useState('');
+  const [collection, setCollection] = useState(() => `Batch ${new Date().toLocaleDateString()}`);
+  const [concurrency, setConcurrency] = useState(2);
+
+  if (!isOpen) return null;
+
+  const options: BatchRunOptions = { collection: collection.trim() || 'Batch', concurrency, aspectRatio, resolution };
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const retryableCount = items.filter(item => item.status === 'failed' || item.status === 'cancelled').length;
+  const queuedCount = items.filter(item => item.status === 'queued').length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setInput(await file.text());
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-950/90 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col relative overflow-hidden">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-200 dark:border-white/10 flex items-center justify-between bg-white/50 dark:bg-slate-900/50 backdrop-blur-sm">
+            <div className="flex items-center gap-3">
+                <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-lg text-cyan-600 dark:text-cyan-400">
+                    <ListChecks className="w-5 h-5" />
+                </div>
+                <div>
+                    <h2 className="text-xl font-display font-bold text-slate-900 dark:text-white">Batch Queue</h2>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {items.length > 0 ? `${doneCount} of ${items.length} saved to the library` : 'Paste topics or upload a CSV with topic, level, style and language columns'}
+                    </p>
+                </div>
+            </div>
+            <button
+                onClick={onClose}
+                className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors text-slate-500 dark:text-slate-400"
+            >
+                <X className="w-6 h-6" />
+            </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 bg-slate-50 dark:bg-slate-950/50 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <label className="md:col-span-2 flex flex-col gap-1">
+                    <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">Collection Name</span>
+                    <input value={collection} onChange={(e) => setCollection(e.target.value)} disabled={isRunning} className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500" />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">Parallel Jobs</span>
+                    <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} disabled={isRunning} className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-800 dark:text-slate-200 outline-none cursor-pointer">
+                        {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </label>
+            </div>
+
+            {items.length === 0 ? (
+                <div className="space-y-3">
+                    <textarea
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        rows={10}
+                        placeholder={'topic,level,style,language\nPhotosynthesis,Elementary,Cartoon,English\nThe Water Cycle,High School,Minimalist,Spanish'}
+                        className="w-full p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl text-sm font-mono text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500"
+                    />
+                    <div className="flex flex-wrap gap-3">
+                        <label className="flex items-center gap-2 px-4 py-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-600 dark:text-slate-300 text-sm font-bold cursor-pointer hover:bg-white dark:hover:bg-slate-800 transition-all">
+                            <Upload className="w-4 h-4" /> Upload CSV
+                            <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="hidden" />
+                        </label>
+                        <button onClick={() => onLoadInput(input, defaults)} disabled={!input.trim()} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-sm font-bold disabled:opacity-40 transition-all">
+                            <ListChecks className="w-4 h-4" /> Load Items
+                        </button>
+                    </div>
+                    <p className="text-xs text-slate-500">
+                        Missing columns use your current settings ({defaults.level}, {defaults.style}, {defaults.language}). Every item renders at {aspectRatio} / {resolution}.
+                    </p>
+                </div>
+            ) : (
+                <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/5 rounded-xl overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 dark:bg-slate-950/60 text-[10px] uppercase tracking-widest text-slate-400">
+                            <tr>
+                                <th className="text-left px-4 py-3">Topic</th>
+                                <th className="text-left px-4 py-3 hidden md:table-cell">Level</th>
+                                <th className="text-left px-4 py-3 hidden md:table-cell">Style</th>
+                                <th className="text-left px-4 py-3 hidden md:table-cell">Language</th>
+                                <th className="text-left px-4 py-3">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-white/5 text-slate-700 dark:text-slate-300">
+                            {items.map(item => (
+                                <tr key={item.id}>
+                                    <td className="px-4 py-3 font-medium">{item.topic}</td>
+                                    <td className="px-4 py-3 hidden md:table-cell">{item.level}</td>
+                                    <td className="px-4 py-3 hidden md:table-cell">{item.style}</td>
+                                    <td className="px-4 py-3 hidden md:table-cell">{item.language}</td>
+                                    <td className="px-4 py-3">
+                                        <span title={item.error} className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[item.status]}`}>
+                                            <StatusIcon status={item.status} /> {item.status}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {issues.length > 0 && (
+                <ul className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/30 rounded-xl text-xs text-amber-800 dark:text-amber-200 space-y-1">
+                    {issues.map((issue, index) => <li key={index}>{issue}</li>)}
+                </ul>
+            )}
+        </div>
+
+        {items.length > 0 && (
+            <div className="p-4 border-t border-slate-200 dark:border-white/10 flex flex-wrap justify-end gap-3">
+                <button onClick={onClear} disabled={isRunning} className="flex items-center gap-2 px-4 py-2 rounded-xl text-slate-500 text-sm font-bold hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 transition-all">
+                    <Trash2 className="w-4 h-4" /> Clear
+                </button>
+                {isRunning ? (
+                    <button onClick={onCancel} className="flex items-center gap-2 px-5 py-2 rounded-xl bg-red-600 text-white text-sm font-bold shadow-lg hover:brightness-110 transition-all">
+                        <Square className="w-4 h-4" /> Stop
+                    </button>
+                ) : (
+                    <>
+                        {retryableCount > 0 && (
+                            <button onClick={() => onRetryFailed(options)} className="flex items-center gap-2 px-5 py-2 rounded-xl border border-amber-500/40 text-amber-700 dark:text-amber-300 text-sm font-bold hover:bg-amber-50 dark:hover:bg-amber-900/20 transition-all">
+                                <RotateCcw className="w-4 h-4" /> Retry {retryableCount}
+                            </button>
+                        )}
+                        <button onClick={() => onStart(options)} disabled={queuedCount === 0} className="flex items-center gap-2 px-5 py-2 rounded-xl bg-gradient-to-r from-cyan-600 to-indigo-600 text-white text-sm font-bold shadow-lg hover:brightness-110 disabled:opacity-40 transition-all">
+                            <Play className="w-4 h-4" /> Run {queuedCount} Item{queuedCount !== 1 ? 's' : ''}
+                        </button>
+                    </>
+                )}
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchModal;
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { GeneratedImage } from '../types';
+import { computePixelDiff, PixelDiff } from '../services/imageUtils';
+import { Columns, SplitSquareHorizontal, Layers, Scan, X, Loader2 } from 'lucide-react';
+
+type CompareMode = 'slider' | 'side' | 'onion';
+
+interface CompareViewProps {
+  versions: GeneratedImage[];
+  initialBeforeId: string;
+  initialAfterId: string;
+  panelIndex?: number;
+  onClose: () => void;
+}
+
+const MODES: { id: CompareMode; label: string; icon: React.FC<{ className?: string }> }[] = [
+  { id: 'slider', label: 'Slider', icon: SplitSquareHorizontal },
+  { id: 'side', label: 'Side by Side', icon: Columns },
+  { id: 'onion', label: 'Onion Skin', icon: Layers }
+];
+
+const describe = (image: GeneratedImage) => image.parentId ? image.editInstruction || image.prompt : 'Original';
+
+const CompareView: React.FC<CompareViewProps> = ({ versions, initialBeforeId, initialAfterId, panelIndex = 0, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [beforeId, setBeforeId] = useState(initialBeforeId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+  const [split, setSplit] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const [showDiff, setShowDiff] = useState(false);
+  const [diff, setDiff] = useState<PixelDiff | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  const before = versions.find(v => v.id === beforeId);
+  const after = versions.find(v => v.id === afterId);
+  // Series versions are compared one panel at a time
+  const dataOf = (image: GeneratedImage) => image.panels?.[panelIndex]?.data || image.data;
+  const beforeData = before && dataOf(before);
+  const afterData = after && dataOf(after);
+
+  useEffect(() => {
+    setDiff(null);
+    if (!showDiff || !beforeData || !afterData) return;
+    let cancelled = false;
+    setIsDiffing(true);
+    computePixelDiff(beforeData, afterData)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(e => console.error("Pixel diff failed", e))
+      .finally(() => { if (!cancelled) setIsDiffing(false); });
+    return () => { cancelled = true; };
+  }, [showDiff, beforeData, afterData]);
+
+  const handleDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.buttons !== 1 || !stageRef.current) return;
+    const rect = stageRef.current.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, (e.clientX - rect.left) / rect.width * 100)));
+  };
+
+  const renderVersionSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="flex items-center gap-2 text-xs min-w-0">
+      <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className="min-w-0 max-w-[14rem] px-3 py-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-lg text-slate-700 dark:text-slate-200 outline-none cursor-pointer">
+        {versions.map(v => (
+          <option key={v.id} value={v.id}>{describe(v)} · {new Date(v.timestamp).toLocaleTimeString()}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const diffOverlay = showDiff && diff && (
+    <img src={diff.overlay} alt="" aria-hidden="true" className="absolute inset-0 w-full h-full pointer-events-none mix-blend-multiply dark:mix-blend-screen" />
+  );
+
+  return (
+    <div className="w-full mt-6 p-4 md:p-6 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-2xl shadow-xl animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex bg-slate-100 dark:bg-slate-800 rounded-xl p-1">
+          {MODES.map(({ id, label, icon: Icon }) => (
+            <button key={id} onClick={() => setMode(id)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${mode === id ? 'bg-white dark:bg-slate-700 text-cyan-600 dark:text-cyan-400 shadow' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}>
+              <Icon className="w-3.5 h-3.5" /> {label}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => setShowDiff(!showDiff)} className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold border transition-all ${showDiff ? 'bg-rose-600 border-rose-500 text-white' : 'border-slate-200 dark:border-white/10 text-slate-500 hover:text-rose-600'}`}>
+          {isDiffing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Scan className="w-3.5 h-3.5" />} Highlight Changes
+          {showDiff && diff && <span className="font-mono opacity-80">{(diff.changedRatio * 100).toFixed(1)}%</span>}
+        </button>
+        <div className="flex-1" />
+        <button onClick={onClose} title="Close comparison" className="p-2 rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100 dark:hover:bg-slate-800"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4">
+        {renderVersionSelect('Before', beforeId, setBeforeId)}
+        {renderVersionSelect('After', afterId, setAfterId)}
+      </div>
+
+      {beforeData && afterData && (
+        mode === 'side' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <img src={beforeData} alt={`Before: ${describe(before!)}`} className="w-full h-auto rounded-xl bg-slate-100 dark:bg-slate-950" />
+            <div className="relative">
+              <img src={afterData} alt={`After: ${describe(after!)}`} className="w-full h-auto rounded-xl bg-slate-100 dark:bg-slate-950" />
+              {diffOverlay}
+            </div>
+          </div>
+        ) : (
+          <div ref={stageRef} onPointerDown={mode === 'slider' ? handleDrag : undefined} onPointerMove={mode === 'slider' ? handleDrag : undefined} className={`relative rounded-xl overflow-hidden bg-slate-100 dark:bg-slate-950 select-none ${mode === 'slider' ? 'cursor-ew-resize touch-none' : ''}`}>
+            <img src={beforeData} alt={`Before: ${describe(before!)}`} draggable={false} className="w-full h-auto block" />
+            <img
+              src={afterData}
+              alt={`After: ${describe(after!)}`}
+              draggable={false}
+              className="absolute inset-0 w-full h-full"
+              style={mode === 'slider' ? { clipPath: `inset(0 0 0 ${split}%)` } : { opacity: opacity / 100 }}
+            />
+            {diffOverlay}
+            {mode === 'slider' && (
+              <div className="absolute inset-y-0 w-0.5 bg-white shadow-[0_0_8px_rgba(0,0,0,0.5)] pointer-events-none" style={{ left: `${split}%` }}>
+                <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 p-1.5 rounded-full bg-white text-slate-700 shadow-lg">
+                  <SplitSquareHorizontal className="w-4 h-4" />
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      )}
+
+      {mode !== 'side' && (
+        <div className="flex items-center gap-3 mt-4">
+          <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Before</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={mode === 'slider' ? split : opacity}
+            onChange={(e) => (mode === 'slider' ? setSplit : setOpacity)(Number(e.target.value))}
+            aria-label={mode === 'slider' ? 'Split position' : 'After opacity'}
+            className="flex-1 accent-cyan-600"
+          />
+          <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">After</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { DescriptionSection, ImageDescription } from '../types';
+import { emptyDescription } from '../services/description';
+import { Accessibility, Edit3, RefreshCcw, Check, X, Plus, Trash2 } from 'lucide-react';
+
+interface DescriptionPanelProps {
+  id: string; // Referenced by the image's aria-describedby
+  description?: ImageDescription;
+  isDescribing?: boolean;
+  onChange?: (description: ImageDescription) => void;
+  onRegenerate?: () => void;
+}
+
+const ALT_TEXT_LIMIT = 125; // Screen readers cut longer alt text off or read it in one breath
+
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const inputClass = 'w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-1';
+
+const DescriptionPanel: React.FC<DescriptionPanelProps> = ({ id, description, isDescribing = false, onChange, onRegenerate }) => {
+  const [draft, setDraft] = useState<ImageDescription | null>(null);
+
+  // Leave the editor when a different image (or a regenerated description) comes in
+  useEffect(() => { setDraft(null); }, [description]);
+
+  const saveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    onChange?.({
+      ...draft,
+      altText: draft.altText.trim(),
+      sections: draft.sections.filter(s => s.heading.trim() || s.text.trim()),
+      data: fromLines(toLines(draft.data)),
+      relationships: fromLines(toLines(draft.relationships))
+    });
+    setDraft(null);
+  };
+
+  const updateSection = (index: number, changes: Partial<DescriptionSection>) => {
+    setDraft(prev => prev && { ...prev, sections: prev.sections.map((s, i) => i === index ? { ...s, ...changes } : s) });
+  };
+
+  return (
+    <section aria-labelledby={`${id}-heading`} className="mt-4 w-full p-4 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-2xl shadow-lg">
+      <div className="flex items-center gap-3">
+        <h3 id={`${id}-heading`} className="flex-1 flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+          <Accessibility className="w-3.5 h-3.5" /> Image Description
+          {description?.edited && <span className="normal-case tracking-normal font-medium">· edited</span>}
+        </h3>
+        {isDescribing && <RefreshCcw className="w-4 h-4 text-cyan-500 animate-spin" aria-label="Writing description" />}
+        {!draft && onChange && (
+          <button onClick={() => setDraft(description || emptyDescription())} title="Edit description" className="p-1.5 rounded-md text-slate-400 hover:text-cyan-600"><Edit3 className="w-4 h-4" /></button>
+        )}
+        {!draft && onRegenerate && (
+          <button onClick={onRegenerate} disabled={isDescribing} title={description?.edited ? 'Write a new description (replaces your edits)' : 'Write a new description'} className="p-1.5 rounded-md text-slate-400 hover:text-cyan-600 disabled:opacity-40"><RefreshCcw className="w-4 h-4" /></button>
+        )}
+      </div>
+
+      {draft ? (
+        <form onSubmit={saveDraft} className="mt-3 space-y-3">
+          <div>
+            <label htmlFor={`${id}-alt`} className={labelClass}>Alt Text <span className={draft.altText.length > ALT_TEXT_LIMIT ? 'text-red-500' : ''}>{draft.altText.length}/{ALT_TEXT_LIMIT}</span></label>
+            <textarea id={`${id}-alt`} value={draft.altText} onChange={(e) => setDraft({ ...draft, altText: e.target.value })} rows={2} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor={`${id}-summary`} className={labelClass}>Summary</label>
+            <textarea id={`${id}-summary`} value={draft.summary} onChange={(e) => setDraft({ ...draft, summary: e.target.value })} rows={3} className={inputClass} />
+          </div>
+          <fieldset className="space-y-2">
+            <legend className={labelClass}>Sections</legend>
+            {draft.sections.map((section, index) => (
+              <div key={index} className="flex gap-2">
+                <div className="flex-1 space-y-1">
+                  <input value={section.heading} onChange={(e) => updateSection(index, { heading: e.target.value })} aria-label={`Section ${index + 1} heading`} placeholder="Heading" className={`${inputClass} font-bold`} />
+                  <textarea value={section.text} onChange={(e) => updateSection(index, { text: e.target.value })} aria-label={`Section ${index + 1} text`} rows={2} className={inputClass} />
+                </div>
+                <button type="button" onClick={() => setDraft({ ...draft, sections: draft.sections.filter((_, i) => i !== index) })} title="Remove section" className="self-start p-2 rounded-lg text-slate-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            ))}
+            <button type="button" onClick={() => setDraft({ ...draft, sections: [...draft.sections, { heading: '', text: '' }] })} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-white/10 text-xs font-bold text-slate-600 dark:text-slate-300 hover:text-cyan-600"><Plus className="w-3.5 h-3.5" /> Add Section</button>
+          </fieldset>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor={`${id}-data`} className={labelClass}>Data (one per line)</label>
+              <textarea id={`${id}-data`} value={toLines(draft.data)} onChange={(e) => setDraft({ ...draft, data: e.target.value.split('\n') })} rows={4} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor={`${id}-relationships`} className={labelClass}>Relationships (one per line)</label>
+              <textarea id={`${id}-relationships`} value={toLines(draft.relationships)} onChange={(e) => setDraft({ ...draft, relationships: e.target.value.split('\n') })} rows={4} className={inputClass} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setDraft(null)} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold text-slate-500 hover:text-slate-700"><X className="w-4 h-4" /> Cancel</button>
+            <button type="submit" disabled={!draft.altText.trim()} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-cyan-600 text-white text-xs font-bold disabled:opacity-40"><Check className="w-4 h-4" /> Save</button>
+          </div>
+        </form>
+      ) : description ? (
+        <details className="mt-3">
+          <summary className="cursor-pointer text-sm text-slate-700 dark:text-slate-300 leading-relaxed">{description.altText}</summary>
+          <div id={id} className="mt-3 space-y-3 text-sm text-slate-700 dark:text-slate-300 leading-relaxed">
+            {description.summary && <p>{description.summary}</p>}
+            {description.sections.map((section, index) => (
+              <div key={index}>
+                <h4 className="font-bold text-slate-800 dark:text-slate-200">{section.heading}</h4>
+                <p>{section.text}</p>
+              </div>
+            ))}
+            {description.data.length > 0 && (
+              <div>
+                <h4 className="font-bold text-slate-800 dark:text-slate-200">Data</h4>
+                <ul className="list-disc pl-5">{description.data.map((item, index) => <li key={index}>{item}</li>)}</ul>
+              </div>
+            )}
+            {description.relationships.length > 0 && (
+              <div>
+                <h4 className="font-bold text-slate-800 dark:text-slate-200">Relationships</h4>
+                <ul className="list-disc pl-5">{description.relationships.map((item, index) => <li key={index}>{item}</li>)}</ul>
+              </div>
+            )}
+          </div>
+        </details>
+      ) : (
+        <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">{isDescribing ? 'Writing a description of this image...' : 'No description yet. Write one, or have one written from the image.'}</p>
+      )}
+    </section>
+  );
+};
+
+export default DescriptionPanel;
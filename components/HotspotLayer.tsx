@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { FactHotspot } from '../types';
+import { loadImage } from '../services/imageUtils';
+
+interface HotspotLayerProps {
+  src: string; // Image under the layer; the SVG uses its pixel size as the viewBox
+  hotspots: FactHotspot[];
+  selectedFactIndex: number | null;
+  onSelect: (factIndex: number | null) => void;
+}
+
+const HotspotLayer: React.FC<HotspotLayerProps> = ({ src, hotspots, selectedFactIndex, onSelect }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src)
+      .then(img => { if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [src]);
+
+  if (!size) return null;
+  const { width, height } = size;
+  const stroke = width * 0.003;
+  const markerRadius = width * 0.012;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" onClick={() => onSelect(null)} className="absolute inset-0 w-full h-full">
+      {hotspots.map(hotspot => {
+        const isSelected = hotspot.factIndex === selectedFactIndex;
+        const x = hotspot.x * width;
+        const y = hotspot.y * height;
+        return (
+          <g
+            key={hotspot.factIndex}
+            role="button"
+            aria-label={`Fact ${hotspot.factIndex + 1}`}
+            onClick={(e) => { e.stopPropagation(); onSelect(isSelected ? null : hotspot.factIndex); }}
+            className="cursor-pointer group/hotspot"
+          >
+            <rect
+              x={x}
+              y={y}
+              width={hotspot.width * width}
+              height={hotspot.height * height}
+              rx={stroke * 3}
+              fill={isSelected ? 'rgba(6,182,212,0.18)' : 'rgba(6,182,212,0.04)'}
+              stroke="#06b6d4"
+              strokeWidth={stroke}
+              strokeOpacity={isSelected ? 1 : 0.5}
+              className="transition-all group-hover/hotspot:fill-cyan-400/20"
+            />
+            <circle cx={x} cy={y} r={markerRadius} fill="#06b6d4" className={isSelected ? undefined : 'animate-pulse'} />
+            <text x={x} y={y} fill="#ffffff" fontSize={markerRadius * 1.2} fontWeight={700} textAnchor="middle" dominantBaseline="central" pointerEvents="none">
+              {hotspot.factIndex + 1}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default HotspotLayer;
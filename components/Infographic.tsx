@@ -4,36 +4,122 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
-import { GeneratedImage } from '../types';
-import { Download, Sparkles, Edit3, Maximize2, X, ZoomIn, ZoomOut, RefreshCcw, Bookmark, Check, Volume2, ShieldCheck, AlertTriangle, Wand2, Mic, Film, Share2 } from 'lucide-react';
+import { Annotation, AnnotationKind, ClaimVerdict, GeneratedImage, ImageDescription, TextOverlayItem, TextOverlayRole } from '../types';
+import { Download, Sparkles, Edit3, Maximize2, X, ZoomIn, ZoomOut, RefreshCcw, Bookmark, Check, Volume2, ShieldCheck, AlertTriangle, Wand2, Mic, Film, Share2, ChevronLeft, ChevronRight, SplitSquareHorizontal, Square, Brush, Eraser, PenTool, MousePointer2, ArrowUpRight, Hash, Highlighter, Type, Eye, EyeOff, Trash2, TextCursorInput, TextAlignStart, TextAlignCenter, TextAlignEnd, FileCode, Plus, Crosshair, Lightbulb, ExternalLink, MessageCircleQuestion, CircleCheck, CircleDashed, CircleX, ScanText } from 'lucide-react';
 import AudioPlayer from './AudioPlayer';
-import { generateAudioNarration } from '../services/geminiService';
 import LiveDiscussion from './LiveDiscussion';
+import CompareView from './CompareView';
+import MaskCanvas, { MaskTool } from './MaskCanvas';
+import AnnotationLayer from './AnnotationLayer';
+import TextOverlayLayer from './TextOverlayLayer';
+import HotspotLayer from './HotspotLayer';
+import RegionQuestionLayer from './RegionQuestionLayer';
+import DescriptionPanel from './DescriptionPanel';
+import { ANNOTATION_COLORS, annotationsForPanel } from '../services/annotations';
+import { downloadDataUrl, getExportImage, getExportSvg, RegionBox } from '../services/imageUtils';
+import { findSpellingIssues, SpellingIssue } from '../services/textCheck';
 
 interface InfographicProps {
   image: GeneratedImage;
-  onEdit: (prompt: string) => void;
+  onEdit: (prompt: string, panelIndex?: number, regionMask?: string) => void;
   onVerify: () => void;
   onAnimate: () => void;
+  onNarrate: () => void;
   isEditing: boolean;
+  isVerifying?: boolean;
+  isAnimating?: boolean;
+  isNarrating?: boolean;
   onRefreshNews?: () => void;
   historyIndex?: number;
   historyTotal?: number;
   isSaved?: boolean;
   onToggleSave?: () => void;
+  versions?: GeneratedImage[]; // Other versions in this image's edit tree, for comparison
+  onAnnotationsChange?: (annotations: Annotation[]) => void;
+  onTextOverlayChange?: (items: TextOverlayItem[]) => void;
+  onLocateFacts?: () => void;
+  onExplainFact?: (factIndex: number) => void;
+  onAskRegion?: (box: RegionBox, question: string, panelIndex?: number) => Promise<string | undefined>;
+  onAutoRepair?: (threshold: number, maxIterations: number) => void;
+  onSelectVersion?: (imageId: string) => void;
+  onExtractText?: () => void;
+  onFixSpelling?: (issue: SpellingIssue) => void;
+  onDescribe?: () => void;
+  onDescriptionChange?: (description: ImageDescription) => void;
+  isLocating?: boolean;
+  isExplaining?: boolean;
+  isRepairing?: boolean;
+  isExtracting?: boolean;
+  isDescribing?: boolean;
 }
 
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return 'Source';
+  }
+};
+
+const TEXT_ALIGNMENTS: { id: TextOverlayItem['align']; icon: React.FC<{ className?: string }> }[] = [
+  { id: 'left', icon: TextAlignStart },
+  { id: 'center', icon: TextAlignCenter },
+  { id: 'right', icon: TextAlignEnd }
+];
+
+const TEXT_ROLES: TextOverlayRole[] = ['title', 'label', 'fact'];
+
+const DEFAULT_REPAIR_THRESHOLD = 90;
+const DEFAULT_REPAIR_ITERATIONS = 3;
+const MAX_REPAIR_ITERATIONS = 6;
+
+const CLAIM_VERDICTS: Record<ClaimVerdict, { label: string; icon: React.FC<{ className?: string }>; className: string }> = {
+  correct: { label: 'Correct', icon: CircleCheck, className: 'text-green-500' },
+  missing: { label: 'Missing', icon: CircleDashed, className: 'text-slate-400' },
+  contradicted: { label: 'Contradicted', icon: CircleX, className: 'text-red-500' },
+  illegible: { label: 'Illegible', icon: ScanText, className: 'text-amber-500' }
+};
+
+const ANNOTATION_TOOLS: { id: AnnotationKind | null; label: string; icon: React.FC<{ className?: string }> }[] = [
+  { id: null, label: 'Select & Move', icon: MousePointer2 },
+  { id: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { id: 'callout', label: 'Numbered Callout', icon: Hash },
+  { id: 'highlight', label: 'Highlight', icon: Highlighter },
+  { id: 'text', label: 'Text Box', icon: Type }
+];
+
 const Infographic: React.FC<InfographicProps> = ({ 
     image, 
     onEdit, 
     onVerify,
     onAnimate,
+    onNarrate,
     isEditing, 
+    isVerifying = false,
+    isAnimating = false,
+    isNarrating = false,
     onRefreshNews,
     historyIndex = 0,
     historyTotal = 1,
     isSaved = false,
-    onToggleSave
+    onToggleSave,
+    versions = [],
+    onAnnotationsChange,
+    onTextOverlayChange,
+    onLocateFacts,
+    onExplainFact,
+    onAskRegion,
+    onAutoRepair,
+    onSelectVersion,
+    onExtractText,
+    onFixSpelling,
+    onDescribe,
+    onDescriptionChange,
+    isLocating = false,
+    isExplaining = false,
+    isRepairing = false,
+    isExtracting = false,
+    isDescribing = false
 }) => {
   const [editPrompt, setEditPrompt] = useState('');
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -43,37 +129,182 @@ const Infographic: React.FC<InfographicProps> = ({
   const [showLiveDiscussion, setShowLiveDiscussion] = useState(false);
   const [viewMode, setViewMode] = useState<'image' | 'video'>('image');
   
-  const [audioData, setAudioData] = useState<string | null>(null);
-  const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
-
+  const [isExporting, setIsExporting] = useState(false);
+  const [panelIndex, setPanelIndex] = useState(0);
+  const [showCompare, setShowCompare] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskTool | null>(null);
+  const [regionMask, setRegionMask] = useState<string | null>(null);
+  const [maskKey, setMaskKey] = useState(0);
+  const [showAnnotationTools, setShowAnnotationTools] = useState(false);
+  const [showAnnotations, setShowAnnotations] = useState(true);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationKind | null>('arrow');
+  const [annotationColor, setAnnotationColor] = useState(ANNOTATION_COLORS[0]);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [showTextTools, setShowTextTools] = useState(false);
+  const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
+  const [showHotspots, setShowHotspots] = useState(false);
+  const [selectedFactIndex, setSelectedFactIndex] = useState<number | null>(null);
+  const [showRegionQuestions, setShowRegionQuestions] = useState(false);
+  const [focusedClaimIndex, setFocusedClaimIndex] = useState<number | null>(null);
+  const [showExtractedText, setShowExtractedText] = useState(false);
+  const [repairThreshold, setRepairThreshold] = useState(DEFAULT_REPAIR_THRESHOLD);
+  const [repairIterations, setRepairIterations] = useState(DEFAULT_REPAIR_ITERATIONS);
   useEffect(() => {
-    setAudioData(null);
-    setIsGeneratingAudio(false);
     setZoomLevel(1);
     setEditPrompt('');
     setShowVerificationDetails(false);
     setShowLiveDiscussion(false);
+    setShowCompare(false);
+    setSelectedFactIndex(null);
+    setFocusedClaimIndex(null);
     setViewMode(image.videoUri ? 'video' : 'image');
+    // An edited series comes back as a new image; stay on the panel that was edited
+    setPanelIndex(prev => image.panels && prev < image.panels.length ? prev : 0);
   }, [image.id, image.videoUri]);
 
+  // A mask only applies to the panel it was drawn on
+  useEffect(() => {
+    clearMask();
+    setMaskTool(null);
+    setSelectedAnnotationId(null);
+  }, [image.id, panelIndex]);
+
+  const panels = image.panels;
+  const isSeries = !!panels && panels.length > 1;
+  const activePanel = panels?.[panelIndex];
+  const displayData = activePanel ? activePanel.data : image.data;
+  // Descriptions are written for single images; a series panel is named by its title
+  const description = !isSeries ? image.description : undefined;
+  const displayAlt = activePanel ? `${image.originalTopic || image.prompt}: ${activePanel.title}` : description?.altText || image.prompt;
+  const descriptionId = `description-${image.id}`;
+
+  const allAnnotations = image.annotations || [];
+  const panelAnnotations = annotationsForPanel(allAnnotations, panelIndex);
+  const selectedAnnotation = panelAnnotations.find(a => a.id === selectedAnnotationId);
+  const isAnnotating = showAnnotationTools && viewMode === 'image';
+
+  // The overlay belongs to a single image; series panels are rendered with their text
+  const textOverlay = !isSeries ? image.textOverlay : undefined;
+  const selectedText = textOverlay?.find(item => item.id === selectedTextId);
+  const isEditingText = showTextTools && !!textOverlay && viewMode === 'image';
+
+  // Hotspots are located on the whole image, so like verification they are not offered for a series
+  const hotspots = !isSeries ? image.factHotspots : undefined;
+  const isAskingRegion = showRegionQuestions && viewMode === 'image' && !isAnnotating && !isEditingText;
+  const isShowingHotspots = showHotspots && !!hotspots && viewMode === 'image' && !isAnnotating && !isEditingText && !isAskingRegion;
+  const selectedFact = selectedFactIndex !== null ? image.facts?.[selectedFactIndex] : undefined;
+  const selectedHotspot = hotspots?.find(h => h.factIndex === selectedFactIndex);
+
+  const claims = image.verification?.claims;
+  const correctClaims = claims?.filter(c => c.verdict === 'correct').length || 0;
+  const focusedClaim = showVerificationDetails && focusedClaimIndex !== null ? claims?.find(c => c.factIndex === focusedClaimIndex) : undefined;
+
+  const handleToggleHotspots = () => {
+    if (!image.factHotspots) onLocateFacts?.();
+    setShowHotspots(!image.factHotspots || !showHotspots);
+    setShowRegionQuestions(false);
+    setSelectedFactIndex(null);
+  };
+
+  const handleToggleRegionQuestions = () => {
+    setShowRegionQuestions(!showRegionQuestions);
+    setShowAnnotationTools(false);
+    setShowTextTools(false);
+  };
+
+  // A pinned answer becomes a highlight over the region plus a callout at its centre carrying the answer
+  const handlePinAnswer = (box: RegionBox, question: string, answer: string) => {
+    const stamp = Date.now();
+    const color = ANNOTATION_COLORS[4];
+    const pinned: Annotation[] = [
+      { id: `annotation-${stamp}-region`, kind: 'highlight', x: box.x, y: box.y, x2: box.x + box.width, y2: box.y + box.height, color },
+      { id: `annotation-${stamp}`, kind: 'callout', x: box.x + box.width / 2, y: box.y + box.height / 2, x2: box.x + box.width / 2, y2: box.y + box.height / 2, text: answer, color }
+    ];
+    onAnnotationsChange?.([...allAnnotations, ...pinned.map(a => isSeries ? { ...a, panelIndex } : a)]);
+    setShowAnnotations(true);
+  };
+
+  const handleUpdateText = (id: string, changes: Partial<TextOverlayItem>) => {
+    onTextOverlayChange?.((textOverlay || []).map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const handleAddText = () => {
+    const item: TextOverlayItem = { id: `overlay-${Date.now()}`, role: 'label', text: 'New label', x: 0.4, y: 0.45, width: 0.2, align: 'center', color: '#0f172a' };
+    onTextOverlayChange?.([...(textOverlay || []), item]);
+    setSelectedTextId(item.id);
+  };
+
+  const handleDeleteText = () => {
+    if (!selectedTextId) return;
+    onTextOverlayChange?.((textOverlay || []).filter(item => item.id !== selectedTextId));
+    setSelectedTextId(null);
+  };
+
+  const handleToggleTextTools = () => {
+    setShowTextTools(!showTextTools);
+    setShowAnnotationTools(false);
+    setShowRegionQuestions(false);
+    setSelectedTextId(null);
+  };
+
+  const handleCreateAnnotation = (annotation: Annotation) => {
+    onAnnotationsChange?.([...allAnnotations, isSeries ? { ...annotation, panelIndex } : annotation]);
+    setShowAnnotations(true);
+  };
+
+  const handleUpdateAnnotation = (id: string, changes: Partial<Annotation>) => {
+    onAnnotationsChange?.(allAnnotations.map(a => a.id === id ? { ...a, ...changes } : a));
+  };
+
+  const handleDeleteAnnotation = () => {
+    if (!selectedAnnotationId) return;
+    onAnnotationsChange?.(allAnnotations.filter(a => a.id !== selectedAnnotationId));
+    setSelectedAnnotationId(null);
+  };
+
+  // Compare against the version this one was edited from, or else the closest other version
+  const otherVersions = versions.filter(v => v.id !== image.id);
+  const compareBaseline = otherVersions.find(v => v.id === image.parentId)
+    || [...otherVersions].sort((a, b) => Math.abs(a.timestamp - image.timestamp) - Math.abs(b.timestamp - image.timestamp))[0];
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!editPrompt.trim()) return;
-    onEdit(editPrompt);
+    onEdit(editPrompt, panelIndex, regionMask || undefined);
     setEditPrompt('');
+    clearMask();
+    setMaskTool(null);
     setIsFullscreen(false); 
     setShowEditControls(false);
     setShowVerificationDetails(false);
   };
 
-  const handleApplyFix = () => {
-      if (image.verification?.suggestedFix) {
-          onEdit(image.verification.suggestedFix);
+  const handleApplyFix = (fix = image.verification?.suggestedFix) => {
+      if (fix) {
+          onEdit(fix);
           setShowVerificationDetails(false);
       }
   };
 
+  // Words in the image that look like misspellings of words in the facts
+  const extractedText = !isSeries ? image.extractedText : undefined;
+  const spellingIssues = extractedText ? findSpellingIssues(extractedText, [image.originalTopic || image.prompt, ...(image.facts || []).map(f => f.text)]) : [];
+
+  const handleToggleExtractedText = () => {
+    if (!image.extractedText) onExtractText?.();
+    setShowExtractedText(!image.extractedText || !showExtractedText);
+  };
+
+  const handleAutoRepair = () => {
+      onAutoRepair?.(repairThreshold, repairIterations);
+      setShowVerificationDetails(false);
+  };
+
+  const repairRun = image.repairRun;
+  const repairSteps = repairRun?.steps || [];
+  const bestRepairStep = repairSteps.length > 0 ? repairSteps.reduce((a, b) => b.score > a.score ? b : a) : undefined;
+
   const handleShare = async () => {
     setIsSharing(true);
     
@@ -82,6 +313,8 @@ const Infographic: React.FC<InfographicProps> = ({
     url.searchParams.set('q', image.originalTopic || image.prompt);
     if (image.level) url.searchParams.set('l', image.level);
     if (image.style) url.searchParams.set('s', image.style);
+    if (image.aspectRatio) url.searchParams.set('ar', image.aspectRatio);
+    if (image.resolution) url.searchParams.set('res', image.resolution);
     
     const shareUrl = url.toString();
     const shareTitle = `Knowledge Vision: ${image.originalTopic || image.prompt}`;
@@ -89,8 +322,8 @@ const Infographic: React.FC<InfographicProps> = ({
 
     try {
       if (navigator.share) {
-        // Create blob from image data for sharing files if supported
-        const res = await fetch(image.data);
+        // Create blob from image data for sharing files if supported; a series is shared as one stacked image
+        const res = await fetch(await getExportImage(image, showAnnotations));
         const blob = await res.blob();
         const file = new File([blob], 'infographic.png', { type: 'image/png' });
 
@@ -111,33 +344,56 @@ const Infographic: React.FC<InfographicProps> = ({
     }
   };
 
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      downloadDataUrl(await getExportImage(image, showAnnotations), `${isSeries ? 'series' : 'infographic'}-${image.id}.png`);
+    } catch (e) {
+      console.error("Export failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDownloadSvg = async () => {
+    setIsExporting(true);
+    try {
+      downloadDataUrl(await getExportSvg(image, showAnnotations), `infographic-${image.id}.svg`);
+    } catch (e) {
+      console.error("SVG export failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.5, 4));
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.5, 0.5));
   const handleResetZoom = () => setZoomLevel(1);
 
+  const clearMask = () => {
+    setRegionMask(null);
+    setMaskKey(k => k + 1);
+  };
+
+  const handleSelectMaskTool = (tool: MaskTool) => {
+    if (maskTool === tool) {
+      setMaskTool(null);
+      clearMask();
+      return;
+    }
+    setMaskTool(tool);
+    setShowEditControls(true);
+  };
+
   const handleCloseFullscreen = () => {
     setIsFullscreen(false);
     setZoomLevel(1);
+    clearMask();
+    setMaskTool(null);
     setShowVerificationDetails(false);
     setShowLiveDiscussion(false);
   }
 
-  const handleGenerateAudio = async () => {
-    if (isGeneratingAudio || audioData) return;
-    setIsGeneratingAudio(true);
-    try {
-        const topicToNarrate = image.originalTopic || image.prompt;
-        const factsToNarrate = image.facts && image.facts.length > 0 ? image.facts : [];
-        const audio = await generateAudioNarration(topicToNarrate, factsToNarrate, image.language || 'English');
-        setAudioData(audio);
-    } catch (e) {
-        console.error("Audio gen failed", e);
-        alert("Could not generate audio narration.");
-    } finally {
-        setIsGeneratingAudio(false);
-    }
-  };
-
   const renderEditForm = (isSticky: boolean = false) => (
     <div className={`w-full ${isSticky ? 'max-w-2xl mx-auto' : 'max-w-3xl -mt-6 sm:-mt-8 relative z-40 px-4'} animate-in slide-in-from-bottom-4 fade-in duration-300`}>
         <div className={`
@@ -157,7 +413,7 @@ const Infographic: React.FC<InfographicProps> = ({
                     type="text"
                     value={editPrompt}
                     onChange={(e) => setEditPrompt(e.target.value)}
-                    placeholder="Describe changes (e.g., 'Make background blue', 'Add labels')..."
+                    placeholder={regionMask ? "Describe changes to the selected region..." : "Describe changes (e.g., 'Make background blue', 'Add labels')..."}
                     className="flex-1 bg-slate-50 dark:bg-slate-900/50 sm:bg-transparent border border-slate-200 dark:border-white/10 sm:border-none rounded-xl sm:rounded-none focus:ring-0 text-slate-900 dark:text-white placeholder:text-slate-400 px-4 py-3 sm:px-2 sm:py-2 font-medium text-base transition-all focus:bg-white dark:focus:bg-slate-900 shadow-inner"
                     disabled={isEditing}
                 />
@@ -188,7 +444,7 @@ const Infographic: React.FC<InfographicProps> = ({
   );
 
   const renderVerificationModal = () => (
-      <div className="absolute top-20 right-6 z-40 w-80 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-4">
+      <div className="absolute top-20 right-6 z-40 w-96 max-w-[calc(100%-3rem)] bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-4">
         <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-800/50">
             <h3 className="font-bold text-slate-800 dark:text-slate-200 flex items-center gap-2">
                 {image.verification?.isAccurate ? <Check className="w-4 h-4 text-green-500" /> : <AlertTriangle className="w-4 h-4 text-amber-500" />}
@@ -203,30 +459,139 @@ const Infographic: React.FC<InfographicProps> = ({
                 <span className="text-slate-500">Score</span>
                 <span className={(image.verification?.score || 0) > 80 ? 'text-green-500' : 'text-amber-500'}>{image.verification?.score}/100</span>
             </div>
-            <div className="bg-slate-100 dark:bg-slate-800 rounded-lg p-3 text-sm text-slate-700 dark:text-slate-300 leading-relaxed max-h-48 overflow-y-auto">
-                {image.verification?.critique}
-            </div>
+            {claims ? (
+                <>
+                    <div className="flex items-center justify-between text-sm font-medium">
+                        <span className="text-slate-500">Facts depicted correctly</span>
+                        <span className="text-slate-700 dark:text-slate-300">{correctClaims} of {claims.length}</span>
+                    </div>
+                    {image.verification?.critique && <p className="text-xs text-slate-500 dark:text-slate-400 leading-relaxed">{image.verification.critique}</p>}
+                    <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+                        {claims.map(claim => {
+                            const verdict = CLAIM_VERDICTS[claim.verdict];
+                            const VerdictIcon = verdict.icon;
+                            const isFocused = claim.factIndex === focusedClaimIndex;
+                            return (
+                                <li key={claim.factIndex}>
+                                    <div
+                                        role={claim.region ? 'button' : undefined}
+                                        onClick={() => claim.region && setFocusedClaimIndex(isFocused ? null : claim.factIndex)}
+                                        className={`flex gap-2 p-2 rounded-lg border transition-colors ${isFocused ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-950/30' : 'border-slate-200 dark:border-slate-800'} ${claim.region ? 'cursor-pointer hover:border-cyan-500/50' : ''}`}
+                                    >
+                                        <VerdictIcon className={`w-4 h-4 mt-0.5 shrink-0 ${verdict.className}`} />
+                                        <div className="flex-1 min-w-0 space-y-1">
+                                            <p className="text-xs font-medium text-slate-800 dark:text-slate-200 leading-snug">{image.facts?.[claim.factIndex]?.text || `Fact ${claim.factIndex + 1}`}</p>
+                                            <p className="text-[11px] text-slate-500 dark:text-slate-400 leading-snug"><span className={`font-bold ${verdict.className}`}>{verdict.label}.</span> {claim.note}</p>
+                                            {claim.fix && (
+                                                <button onClick={(e) => { e.stopPropagation(); handleApplyFix(claim.fix); }} className="flex items-center gap-1 text-[11px] font-bold text-amber-600 hover:text-orange-500">
+                                                    <Wand2 className="w-3 h-3" /> {claim.fix}
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </>
+            ) : (
+                <div className="bg-slate-100 dark:bg-slate-800 rounded-lg p-3 text-sm text-slate-700 dark:text-slate-300 leading-relaxed max-h-48 overflow-y-auto">
+                    {image.verification?.critique}
+                </div>
+            )}
             {!image.verification?.isAccurate && image.verification?.suggestedFix && (
-                <button onClick={handleApplyFix} className="w-full py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-lg font-bold text-sm shadow-md flex items-center justify-center gap-2">
+                <button onClick={() => handleApplyFix()} className="w-full py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-lg font-bold text-sm shadow-md flex items-center justify-center gap-2">
                     <Wand2 className="w-4 h-4" /> Auto-Fix Issues
                 </button>
             )}
+            {onAutoRepair && !image.verification?.isAccurate && (
+                <div className="pt-3 border-t border-slate-200 dark:border-slate-800 space-y-3">
+                    <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                        <label className="flex-1 flex items-center gap-2">
+                            Target
+                            <input type="number" min={50} max={100} value={repairThreshold} onChange={(e) => setRepairThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))} className="w-14 px-2 py-1 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-md text-xs text-slate-700 dark:text-slate-200 outline-none focus:border-cyan-500" />
+                        </label>
+                        <label className="flex-1 flex items-center gap-2">
+                            Max Rounds
+                            <input type="number" min={1} max={MAX_REPAIR_ITERATIONS} value={repairIterations} onChange={(e) => setRepairIterations(Math.min(MAX_REPAIR_ITERATIONS, Math.max(1, Number(e.target.value) || 1)))} className="w-12 px-2 py-1 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-md text-xs text-slate-700 dark:text-slate-200 outline-none focus:border-cyan-500" />
+                        </label>
+                    </div>
+                    <button onClick={handleAutoRepair} disabled={isRepairing} className="w-full py-2 border border-amber-500 text-amber-600 dark:text-amber-400 rounded-lg font-bold text-sm flex items-center justify-center gap-2 hover:bg-amber-50 dark:hover:bg-amber-950/30 disabled:opacity-40">
+                        {isRepairing ? <RefreshCcw className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />} Repair Until {repairThreshold}/100
+                    </button>
+                </div>
+            )}
         </div>
       </div>
   );
 
   return (
     <div className="flex flex-col items-center w-full max-w-6xl mx-auto animate-in fade-in zoom-in duration-700 mt-8">
-      <LiveDiscussion isOpen={showLiveDiscussion} onClose={() => setShowLiveDiscussion(false)} imageData={image.data} />
+      <LiveDiscussion isOpen={showLiveDiscussion} onClose={() => setShowLiveDiscussion(false)} imageData={displayData} />
 
       <div className="relative group w-full bg-slate-100 dark:bg-slate-900 rounded-2xl overflow-hidden shadow-2xl border border-slate-200 dark:border-slate-700/50 min-h-[400px] flex items-center justify-center">
         {viewMode === 'image' ? (
-          <img 
-            src={image.data} 
-            alt={image.prompt} 
-            onClick={() => setIsFullscreen(true)}
-            className={`w-full h-auto object-contain max-h-[80vh] relative z-10 cursor-zoom-in border-2 border-slate-600/30 ${isEditing ? 'animate-pulse blur-[2px]' : ''}`}
-          />
+          <div className="relative w-full">
+            <img 
+              src={displayData} 
+              alt={displayAlt} 
+              aria-describedby={description ? descriptionId : undefined}
+              onClick={() => setIsFullscreen(true)}
+              className={`w-full h-auto object-contain max-h-[80vh] relative z-10 cursor-zoom-in border-2 border-slate-600/30 ${isEditing ? 'animate-pulse blur-[2px]' : ''}`}
+            />
+            {textOverlay && (
+              <div className="absolute inset-[2px] z-[15]">
+                <TextOverlayLayer
+                  src={displayData}
+                  items={textOverlay}
+                  editable={isEditingText}
+                  selectedId={selectedTextId}
+                  onSelect={setSelectedTextId}
+                  onUpdate={handleUpdateText}
+                />
+              </div>
+            )}
+            {focusedClaim?.region && (
+              <div className="absolute inset-[2px] z-[25]">
+                <HotspotLayer
+                  src={displayData}
+                  hotspots={[{ factIndex: focusedClaim.factIndex, ...focusedClaim.region }]}
+                  selectedFactIndex={focusedClaim.factIndex}
+                  onSelect={() => setFocusedClaimIndex(null)}
+                />
+              </div>
+            )}
+            {isShowingHotspots && (
+              <div className="absolute inset-[2px] z-[25]">
+                <HotspotLayer src={displayData} hotspots={hotspots!} selectedFactIndex={selectedFactIndex} onSelect={setSelectedFactIndex} />
+              </div>
+            )}
+            {(showAnnotations || isAnnotating) && (panelAnnotations.length > 0 || isAnnotating) && (
+              <div className="absolute inset-[2px] z-20">
+                <AnnotationLayer
+                  src={displayData}
+                  annotations={panelAnnotations}
+                  editable={isAnnotating}
+                  tool={annotationTool}
+                  color={annotationColor}
+                  selectedId={selectedAnnotationId}
+                  onSelect={setSelectedAnnotationId}
+                  onCreate={handleCreateAnnotation}
+                  onUpdate={handleUpdateAnnotation}
+                />
+              </div>
+            )}
+            {isAskingRegion && onAskRegion && (
+              <div className="absolute inset-[2px] z-[30]">
+                <RegionQuestionLayer
+                  key={`${image.id}-${panelIndex}`}
+                  src={displayData}
+                  onAsk={(box, question) => onAskRegion(box, question, panelIndex)}
+                  onPin={onAnnotationsChange ? handlePinAnswer : undefined}
+                />
+              </div>
+            )}
+          </div>
         ) : (
           <video 
             src={image.videoUri} 
@@ -237,6 +602,17 @@ const Infographic: React.FC<InfographicProps> = ({
           />
         )}
         
+        {isSeries && viewMode === 'image' && (
+          <>
+            <button onClick={() => setPanelIndex(i => Math.max(0, i - 1))} disabled={panelIndex === 0} className="absolute left-4 top-1/2 -translate-y-1/2 z-30 p-3 rounded-full bg-black/60 text-white backdrop-blur-md border border-white/10 hover:bg-cyan-600 disabled:opacity-30 transition-all" title="Previous panel">
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button onClick={() => setPanelIndex(i => Math.min(panels!.length - 1, i + 1))} disabled={panelIndex === panels!.length - 1} className="absolute right-4 top-1/2 -translate-y-1/2 z-30 p-3 rounded-full bg-black/60 text-white backdrop-blur-md border border-white/10 hover:bg-cyan-600 disabled:opacity-30 transition-all" title="Next panel">
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </>
+        )}
+
         {image.videoUri && (
           <div className="absolute top-6 left-6 z-40 flex bg-black/50 backdrop-blur-md rounded-xl p-1 border border-white/20">
             <button onClick={() => setViewMode('image')} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${viewMode === 'image' ? 'bg-cyan-500 text-white shadow-lg' : 'text-white/60 hover:text-white'}`}>Image</button>
@@ -245,28 +621,76 @@ const Infographic: React.FC<InfographicProps> = ({
         )}
 
         <div className="absolute bottom-6 left-6 z-30 animate-in fade-in slide-in-from-bottom-4 duration-500">
-             <AudioPlayer base64Audio={audioData} isLoading={isGeneratingAudio} onGenerate={handleGenerateAudio} topic={image.originalTopic || image.prompt} />
+             <AudioPlayer base64Audio={image.narrationAudio || null} isLoading={isNarrating} onGenerate={onNarrate} topic={image.originalTopic || image.prompt} />
         </div>
 
         {showVerificationDetails && renderVerificationModal()}
 
+        {isShowingHotspots && selectedFact && (
+          <div className="absolute bottom-6 right-6 z-40 w-80 max-w-[calc(100%-3rem)] bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+            <div className="p-4 space-y-3">
+              <div className="flex items-start gap-3">
+                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-cyan-500 text-white text-xs font-bold flex items-center justify-center">{selectedFactIndex! + 1}</span>
+                <p className="flex-1 text-sm text-slate-800 dark:text-slate-200 leading-relaxed">{selectedFact.text}</p>
+                <button onClick={() => setSelectedFactIndex(null)} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+              </div>
+              {selectedFact.sourceUrls.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {selectedFact.sourceUrls.map(url => (
+                    <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 px-2 py-1 rounded-md bg-cyan-50 dark:bg-cyan-900/30 border border-cyan-500/20 text-[10px] font-bold text-cyan-700 dark:text-cyan-300 hover:bg-cyan-100 dark:hover:bg-cyan-900/60">
+                      <ExternalLink className="w-3 h-3" /> {getHostname(url)}
+                    </a>
+                  ))}
+                </div>
+              )}
+              {selectedHotspot?.explanation ? (
+                <p className="bg-slate-100 dark:bg-slate-800 rounded-lg p-3 text-sm text-slate-700 dark:text-slate-300 leading-relaxed max-h-48 overflow-y-auto">{selectedHotspot.explanation}</p>
+              ) : onExplainFact && (
+                <button onClick={() => onExplainFact(selectedFactIndex!)} disabled={isExplaining} className="w-full py-2 bg-gradient-to-r from-cyan-600 to-indigo-600 text-white rounded-lg font-bold text-sm shadow-md flex items-center justify-center gap-2 disabled:opacity-60">
+                  {isExplaining ? <RefreshCcw className="w-4 h-4 animate-spin" /> : <Lightbulb className="w-4 h-4" />} Tell me more
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         <div id="step-infographic-actions" className="absolute top-6 right-6 flex gap-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity z-30">
           <button onClick={handleShare} disabled={isSharing} className="backdrop-blur-md p-3 rounded-xl shadow-lg transition-all border border-white/10 bg-emerald-600 text-white hover:brightness-110" title="Share via Socials">
             {isSharing ? <RefreshCcw className="w-5 h-5 animate-spin" /> : <Share2 className="w-5 h-5" />}
           </button>
           
+          <button onClick={handleDownload} disabled={isExporting} className="backdrop-blur-md p-3 rounded-xl shadow-lg transition-all border border-white/10 bg-black/60 text-white hover:bg-cyan-600" title={isSeries ? "Download Series" : "Download"}>
+            {isExporting ? <RefreshCcw className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+          </button>
+
           <button onClick={() => setShowLiveDiscussion(true)} disabled={isEditing} className="backdrop-blur-md p-3 rounded-xl shadow-lg transition-all border border-white/10 bg-indigo-600 text-white hover:brightness-110" title="Live Discussion"><Mic className="w-5 h-5" /></button>
           
-          <button onClick={onAnimate} disabled={isEditing || !!image.videoUri} className={`backdrop-blur-md p-3 rounded-xl shadow-lg transition-all border border-white/10 ${image.videoUri ? 'bg-amber-600' : 'bg-black/60 hover:bg-amber-600'} text-white`} title={image.videoUri ? "Video Generated" : "Animate with Veo"}><Film className="w-5 h-5" /></button>
+          {/* Animation and verification work on a single image, so they are not offered for a series */}
+          {!isSeries && <button onClick={onAnimate} disabled={isEditing || isAnimating || !!image.videoUri} className={`backdrop-blur-md p-3 rounded-xl shadow-lg transition-all border border-white/10 ${image.videoUri ? 'bg-amber-600' : 'bg-black/60 hover:bg-amber-600'} text-white`} title={image.videoUri ? "Video Generated" : isAnimating ? "Rendering Video..." : "Animate with Veo"}>{isAnimating ? <RefreshCcw className="w-5 h-5 animate-spin" /> : <Film className="w-5 h-5" />}</button>}
 
-          <button onClick={() => image.verification ? setShowVerificationDetails(!showVerificationDetails) : onVerify()} disabled={isEditing} className={`backdrop-blur-md p-3 rounded-xl shadow-lg transition-all border border-white/10 ${image.verification ? (image.verification.isAccurate ? 'bg-green-500' : 'bg-amber-500') : 'bg-black/60'} text-white hover:bg-cyan-600`} title="Verify Accuracy">
-             {image.verification ? (image.verification.isAccurate ? <ShieldCheck className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />) : <ShieldCheck className="w-5 h-5" />}
-          </button>
+          {!isSeries && <button onClick={() => image.verification ? setShowVerificationDetails(!showVerificationDetails) : onVerify()} disabled={isEditing || isVerifying} className={`backdrop-blur-md p-3 rounded-xl shadow-lg transition-all border border-white/10 ${image.verification ? (image.verification.isAccurate ? 'bg-green-500' : 'bg-amber-500') : 'bg-black/60'} text-white hover:bg-cyan-600`} title="Verify Accuracy">
+             {isVerifying ? <RefreshCcw className="w-5 h-5 animate-spin" /> : image.verification ? (image.verification.isAccurate ? <ShieldCheck className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />) : <ShieldCheck className="w-5 h-5" />}
+          </button>}
 
-          <button onClick={handleGenerateAudio} disabled={isGeneratingAudio || !!audioData} className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${audioData ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title="Audio Summary"><Volume2 className="w-5 h-5" /></button>
+          <button onClick={onNarrate} disabled={isNarrating || !!image.narrationAudio} className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${image.narrationAudio ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title="Audio Summary">{isNarrating ? <RefreshCcw className="w-5 h-5 animate-spin" /> : <Volume2 className="w-5 h-5" />}</button>
           
           {onToggleSave && <button onClick={onToggleSave} className={`backdrop-blur-md p-3 rounded-xl shadow-lg transition-all border border-white/10 ${isSaved ? 'bg-amber-500' : 'bg-black/60'} text-white hover:bg-amber-500`}>{isSaved ? <Check className="w-5 h-5" /> : <Bookmark className="w-5 h-5" />}</button>}
           
+          {!isSeries && onLocateFacts && !!image.facts?.length && <button onClick={handleToggleHotspots} disabled={isLocating} className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${isShowingHotspots ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title={image.factHotspots ? "Fact Hotspots" : "Find Facts in Image"}>{isLocating ? <RefreshCcw className="w-5 h-5 animate-spin" /> : <Crosshair className="w-5 h-5" />}</button>}
+
+          {!isSeries && onExtractText && <button onClick={handleToggleExtractedText} disabled={isExtracting} className={`relative backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${showExtractedText && extractedText ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title={image.extractedText ? "Text in Image" : "Read Text in Image"}>
+            {isExtracting ? <RefreshCcw className="w-5 h-5 animate-spin" /> : <ScanText className="w-5 h-5" />}
+            {spellingIssues.length > 0 && <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-[10px] font-bold leading-[1.1rem]">{spellingIssues.length}</span>}
+          </button>}
+
+          {onAskRegion && <button onClick={handleToggleRegionQuestions} className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${isAskingRegion ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title="Ask About a Region"><MessageCircleQuestion className="w-5 h-5" /></button>}
+
+          {textOverlay && onTextOverlayChange && <button onClick={handleToggleTextTools} className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${showTextTools ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title="Edit Text"><TextCursorInput className="w-5 h-5" /></button>}
+
+          {onAnnotationsChange && <button onClick={() => { setShowAnnotationTools(!showAnnotationTools); setShowTextTools(false); setShowRegionQuestions(false); setSelectedAnnotationId(null); }} className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${showAnnotationTools ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title="Annotate"><PenTool className="w-5 h-5" /></button>}
+
+          {compareBaseline && <button onClick={() => setShowCompare(!showCompare)} className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${showCompare ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title="Compare Versions"><SplitSquareHorizontal className="w-5 h-5" /></button>}
+
           <button onClick={() => setShowEditControls(!showEditControls)} className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg transition-all border border-white/10 ${showEditControls ? 'bg-cyan-600' : 'bg-black/60 hover:bg-cyan-600'}`} title="Refine Infographic"><Edit3 className="w-5 h-5" /></button>
           
           <button onClick={() => setIsFullscreen(true)} className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 border border-white/10"><Maximize2 className="w-5 h-5" /></button>
@@ -274,6 +698,185 @@ const Infographic: React.FC<InfographicProps> = ({
       </div>
 
       {showEditControls && renderEditForm(false)}
+
+      {isEditingText && (
+        <div className="mt-4 w-full flex flex-wrap items-center gap-3 p-3 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-2xl shadow-lg animate-in fade-in slide-in-from-top-2">
+          {selectedText ? (
+            <>
+              <textarea
+                value={selectedText.text}
+                onChange={(e) => handleUpdateText(selectedText.id, { text: e.target.value })}
+                rows={2}
+                className="flex-1 min-w-[12rem] px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500 resize-y"
+              />
+              <select value={selectedText.role} onChange={(e) => handleUpdateText(selectedText.id, { role: e.target.value as TextOverlayRole })} className="px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg text-xs font-bold text-slate-700 dark:text-slate-200 capitalize outline-none cursor-pointer">
+                {TEXT_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+              </select>
+              <div className="flex bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
+                {TEXT_ALIGNMENTS.map(({ id, icon: Icon }) => (
+                  <button key={id} onClick={() => handleUpdateText(selectedText.id, { align: id })} title={`Align ${id}`} className={`p-1.5 rounded-md ${selectedText.align === id ? 'bg-white dark:bg-slate-700 text-cyan-600 shadow' : 'text-slate-500'}`}>
+                    <Icon className="w-4 h-4" />
+                  </button>
+                ))}
+              </div>
+              <input type="color" value={selectedText.color} onChange={(e) => handleUpdateText(selectedText.id, { color: e.target.value })} title="Text colour" className="w-8 h-8 rounded-lg cursor-pointer bg-transparent" />
+              <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                Width
+                <input type="range" min={5} max={100} value={Math.round(selectedText.width * 100)} onChange={(e) => handleUpdateText(selectedText.id, { width: Number(e.target.value) / 100 })} className="w-24 accent-cyan-600" />
+              </label>
+              <button onClick={handleDeleteText} title="Delete text block" className="p-2 rounded-lg text-slate-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+            </>
+          ) : (
+            <p className="flex-1 text-xs text-slate-500 dark:text-slate-400">Select a text block to edit it, or drag it to move it.</p>
+          )}
+          <button onClick={handleAddText} className="flex items-center gap-1.5 px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 text-xs font-bold text-slate-600 dark:text-slate-300 hover:text-cyan-600"><Plus className="w-4 h-4" /> Add Text</button>
+          <button onClick={handleDownloadSvg} disabled={isExporting} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-bold disabled:opacity-40"><FileCode className="w-4 h-4" /> Download SVG</button>
+        </div>
+      )}
+
+      {isAnnotating && (
+        <div className="mt-4 w-full flex flex-wrap items-center gap-3 p-3 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-2xl shadow-lg animate-in fade-in slide-in-from-top-2">
+          <div className="flex bg-slate-100 dark:bg-slate-800 rounded-xl p-1">
+            {ANNOTATION_TOOLS.map(({ id, label, icon: Icon }) => (
+              <button key={label} onClick={() => setAnnotationTool(id)} title={label} className={`p-2 rounded-lg transition-all ${annotationTool === id ? 'bg-white dark:bg-slate-700 text-cyan-600 dark:text-cyan-400 shadow' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}>
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1.5">
+            {ANNOTATION_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => { setAnnotationColor(color); if (selectedAnnotation) handleUpdateAnnotation(selectedAnnotation.id, { color }); }}
+                title={color}
+                className={`w-6 h-6 rounded-full border-2 transition-transform ${annotationColor === color ? 'border-cyan-500 scale-110' : 'border-white dark:border-slate-700'}`}
+                style={{ backgroundColor: color }}
+              />
+            ))}
+          </div>
+          {selectedAnnotation && (selectedAnnotation.kind === 'text' || selectedAnnotation.kind === 'callout') && (
+            <input
+              value={selectedAnnotation.text || ''}
+              onChange={(e) => handleUpdateAnnotation(selectedAnnotation.id, { text: e.target.value })}
+              placeholder={selectedAnnotation.kind === 'callout' ? 'Callout label...' : 'Text...'}
+              className="flex-1 min-w-[10rem] px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500"
+            />
+          )}
+          <div className="flex-1" />
+          <button onClick={handleDeleteAnnotation} disabled={!selectedAnnotation} title="Delete selected" className="p-2 rounded-lg text-slate-400 hover:text-red-500 disabled:opacity-30"><Trash2 className="w-4 h-4" /></button>
+          <button onClick={() => setShowAnnotations(!showAnnotations)} title={showAnnotations ? 'Hide annotations outside the editor and in exports' : 'Show annotations'} className="p-2 rounded-lg text-slate-400 hover:text-cyan-600">
+            {showAnnotations ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+          </button>
+        </div>
+      )}
+
+      {showExtractedText && extractedText && (
+        <div className="mt-4 w-full p-4 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-2xl shadow-lg animate-in fade-in slide-in-from-top-2 space-y-3">
+          <div className="flex items-center gap-3">
+            <p className="flex-1 flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+              <ScanText className="w-3.5 h-3.5" /> Text in Image · {extractedText.length} block{extractedText.length !== 1 ? 's' : ''}
+              {spellingIssues.length > 0 && <span className="text-red-500">· {spellingIssues.length} possible misspelling{spellingIssues.length !== 1 ? 's' : ''}</span>}
+            </p>
+            <button onClick={onExtractText} disabled={isExtracting} title="Read the text again" className="p-1.5 rounded-md text-slate-400 hover:text-cyan-600 disabled:opacity-40"><RefreshCcw className={`w-4 h-4 ${isExtracting ? 'animate-spin' : ''}`} /></button>
+            <button onClick={() => setShowExtractedText(false)} className="p-1.5 rounded-md text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          {spellingIssues.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {spellingIssues.map(issue => (
+                <li key={issue.found} className="flex items-center gap-2 pl-3 pr-1 py-1 rounded-lg bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900/50 text-xs">
+                  <span className="line-through text-red-500">{issue.found}</span>
+                  <ChevronRight className="w-3 h-3 text-slate-400" />
+                  <span className="font-bold text-slate-700 dark:text-slate-200">{issue.expected}</span>
+                  {onFixSpelling && (
+                    <button onClick={() => onFixSpelling(issue)} disabled={isEditing} className="flex items-center gap-1 px-2 py-1 rounded-md bg-red-500 text-white text-[10px] font-bold disabled:opacity-40">
+                      <Wand2 className="w-3 h-3" /> Fix
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {extractedText.length > 0 ? (
+            <ol className="max-h-48 overflow-y-auto space-y-1 text-sm text-slate-700 dark:text-slate-300">
+              {extractedText.map((block, index) => {
+                const flagged = new Set(spellingIssues.filter(issue => issue.blockIndex === index).map(issue => issue.found));
+                return (
+                  <li key={index} className="leading-snug">
+                    {flagged.size > 0
+                      ? block.text.split(/(\s+)/).map((part, i) => flagged.has(part.replace(/[^\p{L}'’-]/gu, '')) ? <mark key={i} className="bg-transparent text-red-500 underline decoration-wavy">{part}</mark> : part)
+                      : block.text}
+                  </li>
+                );
+              })}
+            </ol>
+          ) : (
+            <p className="text-xs text-slate-500 dark:text-slate-400">No text was found in this image.</p>
+          )}
+        </div>
+      )}
+
+      {repairSteps.length > 0 && (
+        <div className="mt-4 w-full flex flex-wrap items-center gap-2 p-3 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-2xl shadow-lg">
+          <span className="flex items-center gap-1.5 pr-2 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+            <Wand2 className="w-3.5 h-3.5" /> Auto-Repair · Target {repairRun!.threshold}
+          </span>
+          {repairSteps.map((step, index) => (
+            <React.Fragment key={step.imageId}>
+              {index > 0 && <ChevronRight className="w-3.5 h-3.5 text-slate-300 dark:text-slate-600" />}
+              <button
+                onClick={() => onSelectVersion?.(step.imageId)}
+                title={step.fix ? `Fix applied next: ${step.fix}` : undefined}
+                className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border text-xs font-bold transition-colors ${step.imageId === image.id ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-950/30 text-cyan-700 dark:text-cyan-300' : 'border-slate-200 dark:border-white/10 text-slate-600 dark:text-slate-300 hover:border-cyan-500/50'}`}
+              >
+                {index === 0 ? 'Start' : `Round ${index}`}
+                <span className={step.score >= repairRun!.threshold ? 'text-green-500' : 'text-amber-500'}>{step.score}</span>
+                {step === bestRepairStep && repairSteps.length > 1 && <Check className="w-3 h-3 text-green-500" />}
+              </button>
+            </React.Fragment>
+          ))}
+          {isRepairing && <RefreshCcw className="w-4 h-4 text-cyan-500 animate-spin" />}
+        </div>
+      )}
+
+      {!isSeries && (onDescriptionChange || description) && (
+        <DescriptionPanel
+          id={descriptionId}
+          description={description}
+          isDescribing={isDescribing}
+          onChange={onDescriptionChange}
+          onRegenerate={onDescribe}
+        />
+      )}
+
+      {showCompare && compareBaseline && (
+        <CompareView
+          versions={[image, ...otherVersions]}
+          initialBeforeId={compareBaseline.id}
+          initialAfterId={image.id}
+          panelIndex={panelIndex}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
+      {isSeries && (
+        <div className="mt-6 w-full flex flex-col items-center gap-3 px-4">
+          <p className="text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400">
+            Panel {panelIndex + 1} of {panels!.length} · <span className="text-cyan-600 dark:text-cyan-400">{activePanel?.title}</span>
+          </p>
+          <div className="flex gap-2 overflow-x-auto max-w-full pb-1">
+            {panels!.map((panel, index) => (
+              <button
+                key={index}
+                onClick={() => { setPanelIndex(index); setViewMode('image'); }}
+                title={panel.title}
+                className={`flex-shrink-0 w-28 rounded-lg overflow-hidden border-2 transition-all ${index === panelIndex ? 'border-cyan-500 shadow-md' : 'border-transparent opacity-60 hover:opacity-100'}`}
+              >
+                <img src={panel.data} alt={panel.title} className="w-full h-auto" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
       
       <div className="mt-8 text-center px-4">
         <p className="text-xs text-slate-500 font-mono opacity-60 uppercase tracking-widest">Visual ID: {image.id}</p>
@@ -287,6 +890,22 @@ const Infographic: React.FC<InfographicProps> = ({
                     <button onClick={handleResetZoom} className="px-3 py-2 hover:bg-white/10 rounded-md text-white flex items-center gap-2"><RefreshCcw className="w-3 h-3" /><span className="text-xs font-bold">{Math.round(zoomLevel * 100)}%</span></button>
                     <button onClick={handleZoomIn} className="p-2 hover:bg-white/10 rounded-md text-white"><ZoomIn className="w-5 h-5" /></button>
                 </div>
+
+                {viewMode === 'image' && (
+                    <div className="flex gap-1 pointer-events-auto bg-white/10 backdrop-blur-md p-1 rounded-lg border border-white/10 shadow-lg text-white">
+                        <button onClick={() => handleSelectMaskTool('rect')} title="Select a rectangular region to edit" className={`p-2 rounded-md ${maskTool === 'rect' ? 'bg-cyan-600' : 'hover:bg-white/10'}`}><Square className="w-5 h-5" /></button>
+                        <button onClick={() => handleSelectMaskTool('freehand')} title="Paint a region to edit" className={`p-2 rounded-md ${maskTool === 'freehand' ? 'bg-cyan-600' : 'hover:bg-white/10'}`}><Brush className="w-5 h-5" /></button>
+                        <button onClick={clearMask} disabled={!regionMask} title="Clear region" className="p-2 rounded-md hover:bg-white/10 disabled:opacity-30"><Eraser className="w-5 h-5" /></button>
+                    </div>
+                )}
+
+                {isSeries && (
+                    <div className="flex items-center gap-2 bg-white/10 backdrop-blur-md p-1 rounded-lg border border-white/10 shadow-lg text-white">
+                        <button onClick={() => setPanelIndex(i => Math.max(0, i - 1))} disabled={panelIndex === 0} className="p-2 hover:bg-white/10 rounded-md disabled:opacity-30"><ChevronLeft className="w-5 h-5" /></button>
+                        <span className="text-xs font-bold px-1">{panelIndex + 1} / {panels!.length}</span>
+                        <button onClick={() => setPanelIndex(i => Math.min(panels!.length - 1, i + 1))} disabled={panelIndex === panels!.length - 1} className="p-2 hover:bg-white/10 rounded-md disabled:opacity-30"><ChevronRight className="w-5 h-5" /></button>
+                    </div>
+                )}
                 
                 <div className="flex gap-2">
                     <button onClick={handleCloseFullscreen} className="p-3 bg-slate-800 text-white rounded-full hover:bg-slate-700 shadow-lg border border-white/10"><X className="w-6 h-6" /></button>
@@ -295,12 +914,17 @@ const Infographic: React.FC<InfographicProps> = ({
 
             <div className="flex-1 overflow-auto flex items-center justify-center p-8">
                 {viewMode === 'image' ? (
-                  <img 
-                    src={image.data} 
-                    alt={image.prompt}
-                    style={{ transform: `scale(${zoomLevel})`, transition: 'transform 0.2s ease-out' }}
-                    className={`max-w-full max-h-full object-contain shadow-2xl rounded-lg origin-center border-4 border-slate-700 ${isEditing ? 'animate-pulse' : ''}`}
-                  />
+                  <div className="relative origin-center" style={{ transform: `scale(${zoomLevel})`, transition: 'transform 0.2s ease-out' }}>
+                    <img 
+                      src={displayData} 
+                      alt={displayAlt}
+                      aria-describedby={description ? descriptionId : undefined}
+                      className={`block max-w-full max-h-[85vh] shadow-2xl rounded-lg border-4 border-slate-700 ${isEditing ? 'animate-pulse' : ''}`}
+                    />
+                    {textOverlay && !maskTool && <div className="absolute inset-1"><TextOverlayLayer src={displayData} items={textOverlay} /></div>}
+                    {showAnnotations && !maskTool && panelAnnotations.length > 0 && <div className="absolute inset-1"><AnnotationLayer src={displayData} annotations={panelAnnotations} /></div>}
+                    {maskTool && <div className="absolute inset-1"><MaskCanvas key={maskKey} src={displayData} tool={maskTool} onChange={setRegionMask} /></div>}
+                  </div>
                 ) : (
                   <video src={image.videoUri} autoPlay loop controls className="max-w-full max-h-[85vh] rounded-lg shadow-2xl border-2 border-slate-700" />
                 )}
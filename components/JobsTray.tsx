@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { Job, JobKind } from '../hooks/useJobs';
+import { Layers, X, Loader2, Check, AlertTriangle, RotateCcw, ArrowRight, Search, Edit3, ShieldCheck, Film, Volume2, GalleryHorizontal, RefreshCcw, Crosshair, Lightbulb, Wand2, ScanText, Accessibility } from 'lucide-react';
+
+interface JobsTrayProps {
+  jobs: Job[];
+  onCancel: (jobId: string) => void;
+  onDismiss: (jobId: string) => void;
+  onClearFinished: () => void;
+  onOpenImage: (imageId: string) => void;
+  canOpenImage: (imageId: string) => boolean;
+}
+
+const KIND_ICONS: Record<JobKind, React.FC<{ className?: string }>> = {
+  generate: Search,
+  series: GalleryHorizontal,
+  edit: Edit3,
+  verify: ShieldCheck,
+  animate: Film,
+  narrate: Volume2,
+  refresh: RefreshCcw,
+  locate: Crosshair,
+  explain: Lightbulb,
+  repair: Wand2,
+  extract: ScanText,
+  describe: Accessibility
+};
+
+const JobsTray: React.FC<JobsTrayProps> = ({ jobs, onCancel, onDismiss, onClearFinished, onOpenImage, canOpenImage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (jobs.length === 0) return null;
+
+  const runningCount = jobs.filter(job => job.status === 'running').length;
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[150] flex flex-col items-end gap-3">
+      {isOpen && (
+        <div className="w-80 max-h-[60vh] flex flex-col bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+          <div className="p-4 border-b border-slate-200 dark:border-white/10 flex items-center justify-between">
+            <h3 className="font-bold text-sm text-slate-800 dark:text-slate-200">Jobs</h3>
+            <button onClick={onClearFinished} disabled={runningCount === jobs.length} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 disabled:opacity-30">
+              Clear finished
+            </button>
+          </div>
+          <ul className="flex-1 overflow-y-auto divide-y divide-slate-100 dark:divide-white/5">
+            {jobs.map(job => {
+              const Icon = KIND_ICONS[job.kind];
+              return (
+                <li key={job.id} className="p-3 flex items-start gap-3">
+                  <div className={`p-1.5 rounded-lg ${job.status === 'failed' ? 'bg-red-50 text-red-500 dark:bg-red-900/30' : 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400'}`}>
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold text-slate-800 dark:text-slate-200 truncate" title={job.label}>{job.label}</p>
+                    <p className={`text-[11px] leading-snug ${job.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>
+                      {job.status === 'running' ? job.message : job.status === 'failed' ? job.error : job.status === 'cancelled' ? 'Cancelled' : job.message || 'Done'}
+                    </p>
+                    {job.status === 'running' && (
+                      <div className="mt-2 h-1 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                        <div className="h-full bg-cyan-500 rounded-full animate-pulse" style={{ width: `${Math.min(3, job.step) / 3 * 100}%` }}></div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {job.status === 'running' && (
+                      <button onClick={() => onCancel(job.id)} title="Cancel" className="p-1 rounded-md text-slate-400 hover:text-red-500"><X className="w-4 h-4" /></button>
+                    )}
+                    {job.status === 'failed' && job.retry && (
+                      <button onClick={() => { onDismiss(job.id); job.retry!(); }} title="Retry" className="p-1 rounded-md text-slate-400 hover:text-cyan-600"><RotateCcw className="w-4 h-4" /></button>
+                    )}
+                    {job.status === 'done' && job.imageId && canOpenImage(job.imageId) && (
+                      <button onClick={() => onOpenImage(job.imageId!)} title="Open" className="p-1 rounded-md text-slate-400 hover:text-cyan-600"><ArrowRight className="w-4 h-4" /></button>
+                    )}
+                    {job.status !== 'running' && (
+                      <button onClick={() => onDismiss(job.id)} title="Dismiss" className="p-1 rounded-md text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-4 py-3 rounded-2xl shadow-xl border text-sm font-bold transition-all ${failedCount > 0 ? 'bg-red-600 border-red-500 text-white' : 'bg-slate-900 dark:bg-white border-transparent text-white dark:text-slate-900'}`}
+      >
+        {runningCount > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : failedCount > 0 ? <AlertTriangle className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+        {runningCount > 0 ? `${runningCount} running` : failedCount > 0 ? `${failedCount} failed` : 'Jobs'}
+        <Layers className="w-4 h-4 opacity-60" />
+      </button>
+    </div>
+  );
+};
+
+export default JobsTray;
@@ -2,9 +2,12 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useState } from 'react';
 import { GeneratedImage } from '../types';
-import { X, Trash2, Calendar, Download, BookMarked, ArrowRight } from 'lucide-react';
+import { X, Trash2, Calendar, Download, BookMarked, ArrowRight, GalleryHorizontal, FolderOpen, ShieldCheck, Search, ScanText } from 'lucide-react';
+import { downloadDataUrl, getExportImage } from '../services/imageUtils';
+import { getExtractedText } from '../services/textCheck';
+import { PASS_SCORE } from '../services/versionTree';
 
 interface LibraryModalProps {
   isOpen: boolean;
@@ -14,9 +17,60 @@ interface LibraryModalProps {
   onDelete: (id: string, e: React.MouseEvent) => void;
 }
 
+// Sentinel values for the collection filter, distinct from any user-entered collection name
+const ALL_COLLECTIONS = '__all__';
+const NO_COLLECTION = '__none__';
+
+type VerificationFilter = 'all' | 'passing' | 'failing' | 'unverified';
+
+const VERIFICATION_FILTERS: { id: VerificationFilter; label: string; matches: (img: GeneratedImage) => boolean }[] = [
+  { id: 'all', label: 'Any accuracy', matches: () => true },
+  { id: 'passing', label: `Verified ≥ ${PASS_SCORE}`, matches: img => !!img.verification && img.verification.score >= PASS_SCORE },
+  { id: 'failing', label: `Verified < ${PASS_SCORE}`, matches: img => !!img.verification && img.verification.score < PASS_SCORE },
+  { id: 'unverified', label: 'Never verified', matches: img => !img.verification }
+];
+
+const SNIPPET_CONTEXT = 30;
+
+// The part of the image's own text around the first match, for showing why an item matched
+const getSnippet = (text: string, query: string): string | null => {
+  const index = text.toLowerCase().indexOf(query);
+  if (index === -1) return null;
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + query.length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
 const LibraryModal: React.FC<LibraryModalProps> = ({ isOpen, onClose, images, onSelect, onDelete }) => {
+  const [collectionFilter, setCollectionFilter] = useState(ALL_COLLECTIONS);
+  const [verificationFilter, setVerificationFilter] = useState<VerificationFilter>('all');
+  const [query, setQuery] = useState('');
   if (!isOpen) return null;
 
+  const normalizedQuery = query.trim().toLowerCase();
+  const matchesQuery = (img: GeneratedImage) =>
+    !normalizedQuery ||
+    img.prompt.toLowerCase().includes(normalizedQuery) ||
+    getExtractedText(img.extractedText).toLowerCase().includes(normalizedQuery);
+
+  const collections = Array.from(new Set(images.map(img => img.collection).filter((name): name is string => !!name))).sort();
+  const matchesVerification = VERIFICATION_FILTERS.find(f => f.id === verificationFilter)!.matches;
+  const visibleImages = images.filter(img =>
+    (collectionFilter === ALL_COLLECTIONS ||
+      (collectionFilter === NO_COLLECTION ? !img.collection : img.collection === collectionFilter)) &&
+    matchesVerification(img) &&
+    matchesQuery(img)
+  );
+  // Items that matched on their image text rather than their title show where
+  const snippets = new Map(normalizedQuery ? visibleImages
+    .filter(img => !img.prompt.toLowerCase().includes(normalizedQuery))
+    .map(img => [img.id, getSnippet(getExtractedText(img.extractedText), normalizedQuery)]) : []);
+
+  const handleDownload = async (img: GeneratedImage, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try { downloadDataUrl(await getExportImage(img), `saved-${img.id}.png`); } catch (err) { console.error(err); }
+  };
+
   return (
     <div className="fixed inset-0 z-[200] bg-slate-950/90 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
       <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col relative overflow-hidden">
@@ -34,27 +88,62 @@ const LibraryModal: React.FC<LibraryModalProps> = ({ isOpen, onClose, images, on
                     </p>
                 </div>
             </div>
-            <button 
-                onClick={onClose}
-                className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors text-slate-500 dark:text-slate-400"
-            >
-                <X className="w-6 h-6" />
-            </button>
+            <div className="flex items-center gap-3">
+                {images.length > 0 && (
+                    <label className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-xs text-slate-600 dark:text-slate-300">
+                        <Search className="w-4 h-4 shrink-0" />
+                        <input
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Search titles and image text..."
+                            className="w-48 bg-transparent outline-none placeholder:text-slate-400"
+                        />
+                    </label>
+                )}
+                {images.length > 0 && (
+                    <label className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-xs font-bold text-slate-600 dark:text-slate-300">
+                        <ShieldCheck className="w-4 h-4" />
+                        <select value={verificationFilter} onChange={(e) => setVerificationFilter(e.target.value as VerificationFilter)} className="bg-transparent outline-none cursor-pointer">
+                            {VERIFICATION_FILTERS.map(filter => (
+                                <option key={filter.id} value={filter.id}>{filter.label}{filter.id !== 'all' ? ` (${images.filter(filter.matches).length})` : ''}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {collections.length > 0 && (
+                    <label className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-xs font-bold text-slate-600 dark:text-slate-300">
+                        <FolderOpen className="w-4 h-4" />
+                        <select value={collectionFilter} onChange={(e) => setCollectionFilter(e.target.value)} className="bg-transparent outline-none cursor-pointer">
+                            <option value={ALL_COLLECTIONS}>All items</option>
+                            {collections.map(name => (
+                                <option key={name} value={name}>{name} ({images.filter(img => img.collection === name).length})</option>
+                            ))}
+                            <option value={NO_COLLECTION}>Not in a collection</option>
+                        </select>
+                    </label>
+                )}
+                <button 
+                    onClick={onClose}
+                    className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors text-slate-500 dark:text-slate-400"
+                >
+                    <X className="w-6 h-6" />
+                </button>
+            </div>
         </div>
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6 bg-slate-50 dark:bg-slate-950/50">
-            {images.length === 0 ? (
+            {visibleImages.length === 0 ? (
                 <div className="h-full flex flex-col items-center justify-center text-center opacity-60">
                     <BookMarked className="w-16 h-16 text-slate-300 dark:text-slate-700 mb-4" />
-                    <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">Your library is empty</h3>
+                    <h3 className="text-lg font-bold text-slate-700 dark:text-slate-300">{images.length === 0 ? 'Your library is empty' : 'Nothing matches these filters'}</h3>
                     <p className="text-sm text-slate-500 max-w-xs mt-2">
                         Click the bookmark icon on any generated infographic to save it here forever.
                     </p>
                 </div>
             ) : (
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-                    {images.sort((a, b) => b.timestamp - a.timestamp).map((img) => (
+                    {[...visibleImages].sort((a, b) => b.timestamp - a.timestamp).map((img) => (
                         <div 
                             key={img.id} 
                             onClick={() => onSelect(img)}
@@ -63,9 +152,19 @@ const LibraryModal: React.FC<LibraryModalProps> = ({ isOpen, onClose, images, on
                             <div className="aspect-video relative overflow-hidden bg-slate-100 dark:bg-slate-800">
                                 <img 
                                     src={img.data} 
-                                    alt={img.prompt} 
+                                    alt={img.description?.altText || img.prompt} 
                                     className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" 
                                 />
+                                {img.verification && (
+                                    <span className={`absolute top-2 right-2 z-10 flex items-center gap-1 px-2 py-1 rounded-md text-white text-[10px] font-bold font-mono backdrop-blur-md ${img.verification.score >= PASS_SCORE ? 'bg-green-600/80' : 'bg-amber-500/80'}`}>
+                                        <ShieldCheck className="w-3 h-3" /> {img.verification.score}%
+                                    </span>
+                                )}
+                                {img.panels && (
+                                    <span className="absolute top-2 left-2 z-10 flex items-center gap-1 px-2 py-1 rounded-md bg-black/60 text-white text-[10px] font-bold backdrop-blur-md">
+                                        <GalleryHorizontal className="w-3 h-3" /> Series · {img.panels.length} panels
+                                    </span>
+                                )}
                                 <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors flex items-center justify-center opacity-0 group-hover:opacity-100">
                                     <span className="bg-white/90 text-slate-900 px-3 py-1.5 rounded-full text-xs font-bold flex items-center gap-1 shadow-lg transform translate-y-2 group-hover:translate-y-0 transition-transform">
                                         Open in Editor <ArrowRight className="w-3 h-3" />
@@ -77,6 +176,11 @@ const LibraryModal: React.FC<LibraryModalProps> = ({ isOpen, onClose, images, on
                                 <h4 className="font-bold text-slate-800 dark:text-slate-200 text-sm line-clamp-2 mb-2 flex-1" title={img.prompt}>
                                     {img.prompt}
                                 </h4>
+                                {snippets.get(img.id) && (
+                                    <p className="flex items-start gap-1.5 text-[11px] text-slate-500 dark:text-slate-400 line-clamp-2">
+                                        <ScanText className="w-3 h-3 mt-0.5 shrink-0" /> {snippets.get(img.id)}
+                                    </p>
+                                )}
                                 
                                 <div className="flex items-center justify-between mt-3 pt-3 border-t border-slate-100 dark:border-white/5">
                                     <div className="flex items-center gap-1.5 text-[10px] text-slate-400">
@@ -85,15 +189,13 @@ const LibraryModal: React.FC<LibraryModalProps> = ({ isOpen, onClose, images, on
                                     </div>
                                     
                                     <div className="flex items-center gap-1">
-                                        <a 
-                                            href={img.data}
-                                            download={`saved-${img.id}.png`}
-                                            onClick={(e) => e.stopPropagation()}
+                                        <button 
+                                            onClick={(e) => handleDownload(img, e)}
                                             className="p-1.5 text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 dark:hover:bg-cyan-900/20 rounded-lg transition-colors"
-                                            title="Download"
+                                            title={img.panels ? "Download Series" : "Download"}
                                         >
                                             <Download className="w-4 h-4" />
-                                        </a>
+                                        </button>
                                         <button 
                                             onClick={(e) => onDelete(img.id, e)}
                                             className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
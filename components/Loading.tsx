@@ -4,15 +4,18 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useEffect, useState, useRef } from 'react';
-import { Loader2, BrainCircuit, BookOpen, Atom, Globe, Film, Video, Zap, Activity, Sparkles, Cpu, Scan } from 'lucide-react';
+import { Loader2, BrainCircuit, BookOpen, Atom, Globe, Film, Video, Zap, Activity, Sparkles, Cpu, Scan, Link as LinkIcon, X, Layers } from 'lucide-react';
+import { CitedFact } from '../types';
 
 interface LoadingProps {
   status: string;
   step: number;
-  facts?: string[];
+  facts?: CitedFact[];
+  onCancel?: () => void;
+  onBackground?: () => void;
 }
 
-const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
+const Loading: React.FC<LoadingProps> = ({ status, step, facts = [], onCancel, onBackground }) => {
   const [currentFactIndex, setCurrentFactIndex] = useState(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
@@ -307,8 +310,20 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
             ) : facts.length > 0 ? (
                 <div key={currentFactIndex} className="animate-in slide-in-from-bottom-4 fade-in zoom-in duration-500 w-full">
                     <p className="text-xl md:text-2xl text-slate-800 dark:text-slate-100 font-serif-display leading-tight italic">
-                      "{facts[currentFactIndex]}"
+                      "{facts[currentFactIndex]?.text}"
                     </p>
+                    {facts[currentFactIndex]?.sourceUrls.length > 0 && (
+                      <div className="mt-4 flex flex-wrap justify-center gap-2">
+                        {facts[currentFactIndex].sourceUrls.map((url, i) => (
+                          <span key={url} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-cyan-50 dark:bg-cyan-900/30 border border-cyan-500/20 text-[10px] font-mono text-cyan-700 dark:text-cyan-300">
+                            <LinkIcon className="w-3 h-3" />
+                            [{facts[currentFactIndex].sourceIndices[i] + 1}] {(() => {
+                              try { return new URL(url).hostname.replace('www.', ''); } catch { return 'Source'; }
+                            })()}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                 </div>
             ) : (
                 <div className="flex flex-col items-center gap-4 text-slate-400 italic text-sm">
@@ -343,6 +358,19 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
             </div>
         </div>
 
+        <div className="mt-6 flex gap-3">
+            {onBackground && (
+                <button onClick={onBackground} className="flex items-center gap-2 px-5 py-2 rounded-full text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 border border-slate-200 dark:border-white/10 hover:text-cyan-600 hover:border-cyan-500/40 transition-colors">
+                    <Layers className="w-3.5 h-3.5" /> Run in Background
+                </button>
+            )}
+            {onCancel && (
+                <button onClick={onCancel} className="flex items-center gap-2 px-5 py-2 rounded-full text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 border border-slate-200 dark:border-white/10 hover:text-red-500 hover:border-red-500/40 transition-colors">
+                    <X className="w-3.5 h-3.5" /> Cancel
+                </button>
+            )}
+        </div>
+
       </div>
     </div>
   );
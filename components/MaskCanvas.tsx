@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { loadImage } from '../services/imageUtils';
+
+export type MaskTool = 'rect' | 'freehand';
+
+interface MaskCanvasProps {
+  src: string; // Image being masked; the mask is drawn at its natural size
+  tool: MaskTool;
+  onChange: (mask: string | null) => void; // Opaque where the edit may change pixels
+}
+
+const BRUSH_RATIO = 0.04; // Freehand brush width relative to the image width
+
+/**
+ * Transparent drawing layer laid over an image. Remount it (e.g. with a new key) to clear the mask.
+ */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ src, tool, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const dragRef = useRef<{ x: number; y: number; snapshot: ImageData } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src)
+      .then(img => { if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [src]);
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / rect.width * canvas.width,
+      y: (e.clientY - rect.top) / rect.height * canvas.height
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    dragRef.current = { ...point, snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) };
+    if (tool === 'freehand') {
+      ctx.fillStyle = ctx.strokeStyle = '#22d3ee';
+      ctx.lineWidth = ctx.canvas.width * BRUSH_RATIO;
+      ctx.lineCap = ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, ctx.lineWidth / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.beginPath();
+      ctx.moveTo(point.x, point.y);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!drag || !ctx) return;
+    const point = toImagePoint(e);
+    if (tool === 'freehand') {
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+    } else {
+      ctx.putImageData(drag.snapshot, 0, 0);
+      ctx.fillStyle = '#22d3ee';
+      ctx.fillRect(Math.min(drag.x, point.x), Math.min(drag.y, point.y), Math.abs(point.x - drag.x), Math.abs(point.y - drag.y));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current || !canvasRef.current) return;
+    dragRef.current = null;
+    onChange(canvasRef.current.toDataURL('image/png'));
+  };
+
+  if (!size) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size.width}
+      height={size.height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+    />
+  );
+};
+
+export default MaskCanvas;
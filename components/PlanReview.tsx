@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { CitedFact, ResearchResult } from '../types';
+import { ClipboardList, ArrowUp, ArrowDown, Trash2, Plus, Wand2, X, Link as LinkIcon } from 'lucide-react';
+
+interface PlanReviewProps {
+  research: ResearchResult;
+  onApprove: (facts: CitedFact[], imagePrompt: string) => void;
+  onDiscard: () => void;
+}
+
+const PlanReview: React.FC<PlanReviewProps> = ({ research, onApprove, onDiscard }) => {
+  const [facts, setFacts] = useState<CitedFact[]>(research.facts);
+  const [imagePrompt, setImagePrompt] = useState(research.imagePrompt);
+  const [newFact, setNewFact] = useState('');
+
+  const updateFact = (index: number, text: string) => {
+    setFacts(prev => prev.map((fact, i) => i === index ? { ...fact, text } : fact));
+  };
+
+  const moveFact = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= facts.length) return;
+    setFacts(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeFact = (index: number) => {
+    setFacts(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addFact = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFact.trim()) return;
+    // A fact typed by the user has no grounding, so it carries no sources
+    setFacts(prev => [...prev, { text: newFact.trim(), sourceIndices: [], sourceUrls: [] }]);
+    setNewFact('');
+  };
+
+  const cleanedFacts = facts.map(fact => ({ ...fact, text: fact.text.trim() })).filter(fact => fact.text.length > 0);
+  const canApprove = cleanedFacts.length > 0 && imagePrompt.trim().length > 0;
+
+  return (
+    <div className="max-w-4xl mx-auto mt-12 p-6 md:p-8 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-[2rem] shadow-xl animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl text-cyan-600 dark:text-cyan-400">
+          <ClipboardList className="w-5 h-5" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-display font-bold text-lg text-slate-900 dark:text-white">Review Research Plan</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Edit, reorder or remove facts and adjust the prompt before anything is rendered.
+          </p>
+        </div>
+        <span className="text-[10px] font-mono font-bold uppercase tracking-widest text-slate-400">
+          Confidence {Math.round(research.confidence * 100)}%
+        </span>
+      </div>
+
+      <label className="block text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Facts</label>
+      <ol className="space-y-2 mb-3">
+        {facts.map((fact, index) => (
+          <li key={index} className="flex items-start gap-2 p-3 bg-slate-50 dark:bg-slate-950/40 border border-slate-100 dark:border-white/5 rounded-xl">
+            <span className="mt-2 w-5 text-xs font-mono font-bold text-cyan-600 dark:text-cyan-400">{index + 1}.</span>
+            <div className="flex-1">
+              <textarea
+                value={fact.text}
+                onChange={(e) => updateFact(index, e.target.value)}
+                rows={2}
+                className="w-full bg-transparent text-sm text-slate-800 dark:text-slate-200 outline-none resize-none leading-relaxed"
+              />
+              <span className="flex items-center gap-1 text-[10px] font-mono text-slate-400">
+                <LinkIcon className="w-3 h-3" />
+                {fact.sourceUrls.length > 0 ? `${fact.sourceUrls.length} source${fact.sourceUrls.length !== 1 ? 's' : ''}` : 'No sources'}
+              </span>
+            </div>
+            <div className="flex flex-col gap-1">
+              <button onClick={() => moveFact(index, -1)} disabled={index === 0} title="Move up" className="p-1 rounded-md text-slate-400 hover:text-cyan-600 disabled:opacity-30">
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => moveFact(index, 1)} disabled={index === facts.length - 1} title="Move down" className="p-1 rounded-md text-slate-400 hover:text-cyan-600 disabled:opacity-30">
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+            <button onClick={() => removeFact(index)} title="Remove fact" className="p-1 mt-1 rounded-md text-slate-400 hover:text-red-500">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <form onSubmit={addFact} className="flex gap-2 mb-6">
+        <input
+          value={newFact}
+          onChange={(e) => setNewFact(e.target.value)}
+          placeholder="Add a fact..."
+          className="flex-1 px-4 py-2 bg-slate-50 dark:bg-slate-950/40 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500"
+        />
+        <button type="submit" disabled={!newFact.trim()} className="flex items-center gap-1 px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-sm font-bold disabled:opacity-40">
+          <Plus className="w-4 h-4" /> Add
+        </button>
+      </form>
+
+      <label className="block text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-2">Image Prompt</label>
+      <textarea
+        value={imagePrompt}
+        onChange={(e) => setImagePrompt(e.target.value)}
+        rows={5}
+        className="w-full p-4 mb-6 bg-slate-50 dark:bg-slate-950/40 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500 leading-relaxed"
+      />
+
+      <div className="flex flex-col-reverse md:flex-row justify-end gap-3">
+        <button onClick={onDiscard} className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl border border-slate-200 dark:border-white/10 text-slate-600 dark:text-slate-300 font-bold text-sm hover:bg-slate-50 dark:hover:bg-slate-800 transition-all">
+          <X className="w-4 h-4" /> Discard
+        </button>
+        <button onClick={() => onApprove(cleanedFacts, imagePrompt.trim())} disabled={!canApprove} className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-cyan-600 to-indigo-600 text-white font-bold text-sm shadow-lg hover:brightness-110 transition-all disabled:opacity-40">
+          <Wand2 className="w-4 h-4" /> Approve & Render
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlanReview;
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { loadImage, RegionBox } from '../services/imageUtils';
+import { Send, Pin, X, Loader2, RotateCcw } from 'lucide-react';
+
+interface RegionQuestionLayerProps {
+  src: string; // Image under the layer; the SVG uses its pixel size as the viewBox
+  onAsk: (box: RegionBox, question: string) => Promise<string | undefined>;
+  onPin?: (box: RegionBox, question: string, answer: string) => void;
+}
+
+const POINT_REGION_SIZE = 0.15; // A click asks about a square this wide, as a fraction of the image width
+const MIN_DRAG_SIZE = 0.02;
+const POPOVER_WIDTH = 288;
+const POPOVER_CLEARANCE = 220; // Space needed below the region before the popover opens above it instead
+const SUGGESTED_QUESTIONS = ['What is this?', 'Why is this here?', 'How does this work?'];
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const RegionQuestionLayer: React.FC<RegionQuestionLayerProps> = ({ src, onAsk, onPin }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [box, setBox] = useState<RegionBox | null>(null);
+  const [popoverPosition, setPopoverPosition] = useState<{ left: number; top?: number; bottom?: number } | null>(null);
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<string | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src)
+      .then(img => { if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [src]);
+
+  if (!size) return null;
+  const { width, height } = size;
+
+  const toPoint = (e: React.PointerEvent) => {
+    const point = svgRef.current!.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const local = point.matrixTransform(svgRef.current!.getScreenCTM()!.inverse());
+    return { x: clamp(local.x / width), y: clamp(local.y / height) };
+  };
+
+  // Anchors the popover to the region in container pixels, wherever letterboxing put the image; flips above near the bottom
+  const anchorPopover = (region: RegionBox) => {
+    const svg = svgRef.current!;
+    const toScreen = (x: number, y: number) => {
+      const point = svg.createSVGPoint();
+      point.x = x * width;
+      point.y = y * height;
+      return point.matrixTransform(svg.getScreenCTM()!);
+    };
+    const container = containerRef.current!.getBoundingClientRect();
+    const topLeft = toScreen(region.x, region.y);
+    const bottom = toScreen(region.x, region.y + region.height).y - container.top;
+    const left = Math.max(8, Math.min(topLeft.x - container.left, container.width - POPOVER_WIDTH - 8));
+    setPopoverPosition(container.height - bottom < POPOVER_CLEARANCE
+      ? { left, bottom: container.bottom - topLeft.y + 8 }
+      : { left, top: bottom + 8 });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (isAsking) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(toPoint(e));
+    setBox(null);
+    setAnswer(null);
+    setPopoverPosition(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragStart) return;
+    const { x, y } = toPoint(e);
+    setBox({ x: Math.min(dragStart.x, x), y: Math.min(dragStart.y, y), width: Math.abs(x - dragStart.x), height: Math.abs(y - dragStart.y) });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart) return;
+    let region = box;
+    if (!region || Math.max(region.width, region.height) < MIN_DRAG_SIZE) {
+      const regionHeight = POINT_REGION_SIZE * width / height;
+      region = {
+        x: clamp(dragStart.x - POINT_REGION_SIZE / 2),
+        y: clamp(dragStart.y - regionHeight / 2),
+        width: Math.min(POINT_REGION_SIZE, 1 - clamp(dragStart.x - POINT_REGION_SIZE / 2)),
+        height: Math.min(regionHeight, 1 - clamp(dragStart.y - regionHeight / 2))
+      };
+    }
+    setDragStart(null);
+    setBox(region);
+    anchorPopover(region);
+  };
+
+  const ask = async (text: string) => {
+    if (!box || !text.trim()) return;
+    setQuestion(text);
+    setIsAsking(true);
+    const result = await onAsk(box, text.trim());
+    setIsAsking(false);
+    if (result) setAnswer(result);
+  };
+
+  const reset = () => {
+    setBox(null);
+    setAnswer(null);
+    setQuestion('');
+    setPopoverPosition(null);
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="xMidYMid meet"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="absolute inset-0 w-full h-full cursor-help touch-none"
+      >
+        {box && (
+          <rect
+            x={box.x * width}
+            y={box.y * height}
+            width={box.width * width}
+            height={box.height * height}
+            fill="rgba(99,102,241,0.15)"
+            stroke="#6366f1"
+            strokeWidth={width * 0.003}
+            strokeDasharray={`${width * 0.008} ${width * 0.005}`}
+          />
+        )}
+      </svg>
+
+      {box && popoverPosition && !dragStart && (
+        <div
+          className="absolute z-10 w-72 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl p-3 space-y-3 animate-in fade-in"
+          style={popoverPosition}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-start gap-2">
+            <p className="flex-1 text-[10px] font-bold uppercase tracking-widest text-indigo-500 pt-1">{answer ? question : 'Ask about this region'}</p>
+            <button onClick={reset} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+
+          {answer ? (
+            <>
+              <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed max-h-48 overflow-y-auto">{answer}</p>
+              <div className="flex gap-2">
+                {onPin && <button onClick={() => { onPin(box, question, answer); reset(); }} className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-indigo-600 text-white text-xs font-bold">
+                  <Pin className="w-3.5 h-3.5" /> Pin as Annotation
+                </button>}
+                <button onClick={() => { setAnswer(null); setQuestion(''); }} title="Ask another question" className="ml-auto px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 text-slate-500 hover:text-indigo-600">
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <form onSubmit={(e) => { e.preventDefault(); ask(question); }} className="flex gap-2">
+                <input
+                  autoFocus
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  disabled={isAsking}
+                  placeholder="e.g. What is this structure?"
+                  className="flex-1 min-w-0 px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-indigo-500"
+                />
+                <button type="submit" disabled={isAsking || !question.trim()} className="px-3 rounded-lg bg-indigo-600 text-white disabled:opacity-40">
+                  {isAsking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                </button>
+              </form>
+              {!isAsking && (
+                <div className="flex flex-wrap gap-1.5">
+                  {SUGGESTED_QUESTIONS.map(suggestion => (
+                    <button key={suggestion} onClick={() => ask(suggestion)} className="px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-800 text-[11px] text-slate-600 dark:text-slate-300 hover:text-indigo-600">
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionQuestionLayer;
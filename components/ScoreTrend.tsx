@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { GeneratedImage } from '../types';
+import { PASS_SCORE, getVerificationRuns } from '../services/versionTree';
+import { TrendingUp } from 'lucide-react';
+
+interface ScoreTrendProps {
+  versions: GeneratedImage[]; // Oldest first, e.g. the ancestry of the current version
+  currentImageId: string;
+  onSelect: (imageId: string) => void;
+}
+
+const STEP = 72;
+const PADDING_X = 24;
+const TOP = 12;
+const PLOT_HEIGHT = 80;
+const HEIGHT = TOP + PLOT_HEIGHT + 24;
+
+const yFor = (score: number) => TOP + PLOT_HEIGHT * (1 - score / 100);
+
+const ScoreTrend: React.FC<ScoreTrendProps> = ({ versions, currentImageId, onSelect }) => {
+  const points = versions.map((image, index) => ({ image, x: PADDING_X + index * STEP, runs: getVerificationRuns(image) }));
+  const scored = points.filter(p => p.runs.length > 0);
+  if (scored.length === 0) return null;
+
+  const width = PADDING_X * 2 + (versions.length - 1) * STEP;
+  const latestScore = (p: typeof points[number]) => p.runs[p.runs.length - 1].score;
+  const current = scored.find(p => p.image.id === currentImageId);
+  const previous = current && scored[scored.indexOf(current) - 1];
+  const delta = current && previous ? latestScore(current) - latestScore(previous) : null;
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/5">
+      <div className="flex items-center justify-between mb-2">
+        <p className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+          <TrendingUp className="w-3.5 h-3.5" /> Accuracy Across Edits
+        </p>
+        {delta !== null && (
+          <span className={`text-xs font-bold font-mono ${delta > 0 ? 'text-green-500' : delta < 0 ? 'text-red-500' : 'text-slate-400'}`}>
+            {delta > 0 ? '+' : ''}{delta} vs. previous version
+          </span>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <svg viewBox={`0 0 ${width} ${HEIGHT}`} width={width} height={HEIGHT} className="block mx-auto">
+          {[50, PASS_SCORE].map(score => (
+            <g key={score}>
+              <line x1={0} x2={width} y1={yFor(score)} y2={yFor(score)} className="stroke-slate-200 dark:stroke-slate-800" strokeDasharray="4 4" />
+              <text x={2} y={yFor(score) - 3} className="fill-slate-400" fontSize={9}>{score}</text>
+            </g>
+          ))}
+          <polyline points={scored.map(p => `${p.x},${yFor(latestScore(p))}`).join(' ')} fill="none" className="stroke-cyan-500" strokeWidth={2} strokeLinejoin="round" />
+          {points.map((p, index) => {
+            const isCurrent = p.image.id === currentImageId;
+            const score = p.runs.length > 0 ? latestScore(p) : null;
+            return (
+              <g key={p.image.id} role="button" onClick={() => onSelect(p.image.id)} className="cursor-pointer">
+                <title>{score !== null ? `${p.runs.length} run${p.runs.length !== 1 ? 's' : ''}, latest ${score}/100` : 'Not verified'}</title>
+                {/* Hit area over the whole column */}
+                <rect x={p.x - STEP / 2} y={0} width={STEP} height={HEIGHT} fill="transparent" />
+                {p.runs.slice(0, -1).map((run, i) => (
+                  <circle key={i} cx={p.x} cy={yFor(run.score)} r={2.5} className="fill-slate-300 dark:fill-slate-600" />
+                ))}
+                {score !== null ? (
+                  <>
+                    {isCurrent && <circle cx={p.x} cy={yFor(score)} r={8} className="fill-none stroke-cyan-500" strokeWidth={2} />}
+                    <circle cx={p.x} cy={yFor(score)} r={4.5} className={score >= PASS_SCORE ? 'fill-green-500' : 'fill-amber-500'} />
+                  </>
+                ) : (
+                  <circle cx={p.x} cy={TOP + PLOT_HEIGHT} r={4} className={`fill-white dark:fill-slate-900 ${isCurrent ? 'stroke-cyan-500' : 'stroke-slate-300 dark:stroke-slate-600'}`} strokeWidth={1.5} />
+                )}
+                <text x={p.x} y={HEIGHT - 6} textAnchor="middle" fontSize={10} fontWeight={isCurrent ? 700 : 400} className={isCurrent ? 'fill-cyan-600 dark:fill-cyan-400' : 'fill-slate-400'}>
+                  {index === 0 ? 'Original' : `v${index + 1}`}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreTrend;
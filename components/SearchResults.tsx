@@ -3,16 +3,29 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { SearchResultItem } from '../types';
-import { ExternalLink, BookOpen, Link as LinkIcon } from 'lucide-react';
+import { CitedFact, SearchResultItem } from '../types';
+import { ExternalLink, BookOpen, Link as LinkIcon, Quote } from 'lucide-react';
 
 interface SearchResultsProps {
   results: SearchResultItem[];
+  facts?: CitedFact[];
 }
 
-const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return 'External Source';
+  }
+};
+
+const SearchResults: React.FC<SearchResultsProps> = ({ results, facts = [] }) => {
   if (!results || results.length === 0) return null;
 
+  // Citations are matched by URL because the results may come from a later refresh than the facts
+  const resultNumberFor = (url: string) => results.findIndex(r => r.url === url) + 1;
+  const citedFacts = facts.filter(f => f.sourceUrls.some(url => resultNumberFor(url) > 0));
+
   return (
     <div className="w-full max-w-6xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-8 duration-1000">
       <div className="flex items-center gap-3 mb-6 border-t border-slate-200 dark:border-white/10 pt-8 transition-colors">
@@ -21,39 +34,67 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
         </div>
         <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">Research Sources</h3>
       </div>
-      
+
+      {citedFacts.length > 0 && (
+        <ol className="mb-6 space-y-2">
+          {citedFacts.map((fact, index) => (
+            <li key={index} className="flex items-start gap-3 p-4 bg-white dark:bg-slate-900/60 border border-slate-200 dark:border-white/5 rounded-xl text-sm text-slate-700 dark:text-slate-300 shadow-sm">
+              <Quote className="w-4 h-4 mt-0.5 text-cyan-500 flex-shrink-0" />
+              <span className="flex-1 leading-relaxed">{fact.text}</span>
+              <span className="flex flex-wrap gap-1 flex-shrink-0">
+                {fact.sourceUrls.map(url => resultNumberFor(url)).filter(n => n > 0).map(n => (
+                  <a
+                    key={n}
+                    href={results[n - 1].url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={results[n - 1].title}
+                    className="px-1.5 py-0.5 rounded-md bg-cyan-50 dark:bg-cyan-900/30 border border-cyan-500/20 text-[10px] font-mono font-bold text-cyan-700 dark:text-cyan-300 hover:bg-cyan-100 dark:hover:bg-cyan-900/60"
+                  >
+                    [{n}]
+                  </a>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {results.map((result, index) => (
-          <a 
-            key={index} 
-            href={result.url} 
-            target="_blank" 
+        {results.map((result, index) => {
+          const backedCount = facts.filter(f => f.sourceUrls.includes(result.url)).length;
+          return (
+          <a
+            key={index}
+            href={result.url}
+            target="_blank"
             rel="noopener noreferrer"
             className="group relative flex flex-col p-5 bg-white dark:bg-slate-900/60 border border-slate-200 dark:border-white/5 rounded-xl hover:border-cyan-500/30 hover:bg-slate-50 dark:hover:bg-slate-800/80 transition-all duration-300 overflow-hidden shadow-sm hover:shadow-md"
           >
             <div className="absolute top-0 left-0 w-1 h-full bg-cyan-500/0 group-hover:bg-cyan-500/50 transition-all duration-300"></div>
-            
+
             <div className="flex items-start justify-between gap-3 mb-3">
                <h4 className="font-display font-bold text-slate-800 dark:text-slate-200 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 transition-colors line-clamp-2 leading-tight text-sm">
+                 <span className="font-mono text-cyan-600 dark:text-cyan-400 mr-1">[{index + 1}]</span>
                  {result.title}
                </h4>
                <ExternalLink className="w-3.5 h-3.5 text-slate-400 dark:text-slate-600 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 flex-shrink-0 transition-colors mt-0.5" />
             </div>
-            
+
             <div className="mt-auto flex items-center gap-2 text-[10px] text-slate-500 font-mono">
               <LinkIcon className="w-3 h-3" />
               <span className="truncate max-w-full opacity-70 group-hover:opacity-100 transition-opacity uppercase tracking-wider">
-                {(() => {
-                  try {
-                    return new URL(result.url).hostname.replace('www.', '');
-                  } catch {
-                    return 'External Source';
-                  }
-                })()}
+                {getHostname(result.url)}
               </span>
+              {backedCount > 0 && (
+                <span className="ml-auto flex-shrink-0 text-cyan-600 dark:text-cyan-400 font-bold">
+                  Backs {backedCount} fact{backedCount !== 1 ? 's' : ''}
+                </span>
+              )}
             </div>
           </a>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
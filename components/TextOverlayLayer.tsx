@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { TextOverlayItem } from '../types';
+import { loadImage } from '../services/imageUtils';
+import { layoutOverlayItem, getHaloColor, SVG_ANCHOR } from '../services/textOverlay';
+
+interface TextOverlayLayerProps {
+  src: string; // Background under the text; the SVG uses its pixel size as the viewBox
+  items: TextOverlayItem[];
+  editable?: boolean;
+  selectedId?: string | null;
+  onSelect?: (id: string | null) => void;
+  onUpdate?: (id: string, changes: Partial<TextOverlayItem>) => void;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const TextOverlayLayer: React.FC<TextOverlayLayerProps> = ({ src, items, editable = false, selectedId = null, onSelect, onUpdate }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const dragRef = useRef<{ id: string; startX: number; startY: number; origin: TextOverlayItem } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src)
+      .then(img => { if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [src]);
+
+  if (!size) return null;
+  const { width, height } = size;
+
+  const toPoint = (e: React.PointerEvent) => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const local = point.matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x: local.x / width, y: local.y / height };
+  };
+
+  const handleItemDown = (e: React.PointerEvent, item: TextOverlayItem) => {
+    if (!editable) return;
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    onSelect?.(item.id);
+    const { x, y } = toPoint(e);
+    dragRef.current = { id: item.id, startX: x, startY: y, origin: item };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = toPoint(e);
+    onUpdate?.(drag.id, {
+      x: clamp(drag.origin.x + x - drag.startX),
+      y: clamp(drag.origin.y + y - drag.startY)
+    });
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      onPointerDown={() => editable && onSelect?.(null)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragRef.current = null; }}
+      onPointerCancel={() => { dragRef.current = null; }}
+      className={`absolute inset-0 w-full h-full ${editable ? 'touch-none' : 'pointer-events-none'}`}
+    >
+      {items.map(item => {
+        const layout = layoutOverlayItem(item, width, height);
+        const isSelected = item.id === selectedId;
+        return (
+          <g key={item.id} onPointerDown={(e) => handleItemDown(e, item)} className={editable ? 'cursor-move' : undefined}>
+            {/* Hit area and selection frame over the whole wrap width */}
+            <rect
+              x={item.x * width}
+              y={layout.top}
+              width={item.width * width}
+              height={Math.max(layout.height, layout.lineHeight)}
+              fill="transparent"
+              stroke={isSelected ? '#06b6d4' : editable ? 'rgba(6,182,212,0.35)' : 'none'}
+              strokeWidth={width * 0.002}
+              strokeDasharray={`${width * 0.006} ${width * 0.004}`}
+            />
+            <text
+              style={{ font: layout.font }}
+              fill={item.color}
+              stroke={getHaloColor(item.color)}
+              strokeWidth={layout.haloWidth}
+              strokeLinejoin="round"
+              paintOrder="stroke"
+              textAnchor={SVG_ANCHOR[item.align]}
+              dominantBaseline="text-before-edge"
+            >
+              {layout.lines.map((line, i) => <tspan key={i} x={layout.anchorX} y={layout.top + i * layout.lineHeight}>{line}</tspan>)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default TextOverlayLayer;
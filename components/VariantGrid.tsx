@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { VariantCandidate } from '../types';
+import { LayoutGrid, Check, Layers, X, ShieldCheck, Trophy } from 'lucide-react';
+
+interface VariantGridProps {
+  candidates: VariantCandidate[];
+  onChoose: (imageId: string, keepSiblings: boolean) => void;
+  onDiscard: () => void;
+}
+
+const VariantGrid: React.FC<VariantGridProps> = ({ candidates, onChoose, onDiscard }) => {
+  const [selectedId, setSelectedId] = useState(candidates[0]?.image.id);
+
+  return (
+    <div className="max-w-6xl mx-auto mt-12 p-6 md:p-8 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-[2rem] shadow-xl animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-indigo-100 dark:bg-indigo-900/30 rounded-xl text-indigo-600 dark:text-indigo-400">
+          <LayoutGrid className="w-5 h-5" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-display font-bold text-lg text-slate-900 dark:text-white">Choose a Variant</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {candidates.length} renders of the same research. Pick the composition that works best.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {candidates.map(({ image, rank }) => {
+          const isSelected = image.id === selectedId;
+          return (
+            <button
+              key={image.id}
+              onClick={() => setSelectedId(image.id)}
+              className={`group relative rounded-2xl overflow-hidden border-2 transition-all text-left ${isSelected ? 'border-cyan-500 shadow-lg shadow-cyan-500/20' : 'border-transparent hover:border-slate-300 dark:hover:border-white/20'}`}
+            >
+              <img src={image.data} alt={`Variant of ${image.prompt}`} className="w-full h-auto bg-slate-100 dark:bg-slate-950" />
+              <div className="absolute top-3 left-3 flex gap-2">
+                {rank !== undefined && (
+                  <span className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold font-mono backdrop-blur-md ${rank === 1 ? 'bg-amber-400/90 text-amber-950' : 'bg-black/60 text-white'}`}>
+                    {rank === 1 && <Trophy className="w-3 h-3" />} #{rank}
+                  </span>
+                )}
+                {image.verification && (
+                  <span className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold font-mono bg-black/60 text-white backdrop-blur-md">
+                    <ShieldCheck className="w-3 h-3" /> {image.verification.score}%
+                  </span>
+                )}
+              </div>
+              {isSelected && (
+                <span className="absolute top-3 right-3 p-1.5 rounded-full bg-cyan-500 text-white shadow-lg">
+                  <Check className="w-4 h-4" />
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col-reverse md:flex-row justify-end gap-3">
+        <button onClick={onDiscard} className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl border border-slate-200 dark:border-white/10 text-slate-600 dark:text-slate-300 font-bold text-sm hover:bg-slate-50 dark:hover:bg-slate-800 transition-all">
+          <X className="w-4 h-4" /> Discard All
+        </button>
+        <button onClick={() => selectedId && onChoose(selectedId, true)} disabled={!selectedId} className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl border border-cyan-500/30 text-cyan-700 dark:text-cyan-300 font-bold text-sm hover:bg-cyan-50 dark:hover:bg-cyan-900/30 transition-all disabled:opacity-40">
+          <Layers className="w-4 h-4" /> Use Selected, Keep Others
+        </button>
+        <button onClick={() => selectedId && onChoose(selectedId, false)} disabled={!selectedId} className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-cyan-600 to-indigo-600 text-white font-bold text-sm shadow-lg hover:brightness-110 transition-all disabled:opacity-40">
+          <Check className="w-4 h-4" /> Use Selected
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariantGrid;
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { VersionNode, buildVersionTree, getAncestry, getRootId, getVerificationRuns } from '../services/versionTree';
+import ScoreTrend from './ScoreTrend';
+import { GitBranch, Columns, Check, ShieldCheck, CornerDownRight, X, Loader2 } from 'lucide-react';
+
+interface VersionTreeProps {
+  images: GeneratedImage[];
+  currentImage: GeneratedImage;
+  onSelect: (imageId: string) => void;
+  onBranch: (imageId: string, instruction: string) => void;
+  isBranching: (imageId: string) => boolean;
+}
+
+const describe = (image: GeneratedImage) => image.parentId ? image.editInstruction || image.prompt : 'Original';
+
+const VersionTree: React.FC<VersionTreeProps> = ({ images, currentImage, onSelect, onBranch, isBranching }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [branchFromId, setBranchFromId] = useState<string | null>(null);
+  const [instruction, setInstruction] = useState('');
+
+  const tree = buildVersionTree(images, getRootId(currentImage));
+  if (!tree || tree.children.length === 0) return null;
+
+  const byId = new Map(images.map(image => [image.id, image]));
+  const compared = compareIds.map(id => byId.get(id)).filter((image): image is GeneratedImage => !!image);
+
+  // Only versions edited from the same parent can be compared
+  const toggleCompare = (image: GeneratedImage) => {
+    setCompareIds(prev => {
+      if (prev.includes(image.id)) return prev.filter(id => id !== image.id);
+      const first = prev[0] && byId.get(prev[0]);
+      return first && first.parentId === image.parentId ? [first.id, image.id] : [image.id];
+    });
+  };
+
+  const submitBranch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!branchFromId || !instruction.trim()) return;
+    onBranch(branchFromId, instruction.trim());
+    setBranchFromId(null);
+    setInstruction('');
+  };
+
+  const renderNode = (node: VersionNode, hasSiblings: boolean): React.ReactNode => {
+    const { image } = node;
+    const isCurrent = image.id === currentImage.id;
+    const isCompared = compareIds.includes(image.id);
+    const runs = getVerificationRuns(image);
+    return (
+      <li key={image.id}>
+        <div className={`flex items-center gap-3 p-2 rounded-xl transition-colors ${isCurrent ? 'bg-cyan-50 dark:bg-cyan-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'}`}>
+          <button onClick={() => onSelect(image.id)} title="Restore this version" className="flex items-center gap-3 flex-1 min-w-0 text-left">
+            <img src={image.data} alt={describe(image)} className={`w-16 h-10 object-cover rounded-lg border-2 ${isCurrent ? 'border-cyan-500' : 'border-transparent'}`} />
+            <div className="min-w-0">
+              <p className="text-xs font-bold text-slate-800 dark:text-slate-200 truncate" title={describe(image)}>{describe(image)}</p>
+              <p className="text-[10px] text-slate-400 font-mono">{new Date(image.timestamp).toLocaleTimeString()}</p>
+            </div>
+          </button>
+          {image.verification && (
+            <span title={runs.map(run => `${run.score}% · ${new Date(run.timestamp).toLocaleString()}`).join('\n')} className="flex items-center gap-1 px-2 py-0.5 rounded-md text-[10px] font-bold font-mono bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">
+              <ShieldCheck className="w-3 h-3" /> {image.verification.score}%
+              {runs.length > 1 && <span className="font-normal">×{runs.length}</span>}
+            </span>
+          )}
+          {isCurrent && <span className="text-[10px] font-bold uppercase tracking-widest text-cyan-600 dark:text-cyan-400">Current</span>}
+          {isBranching(image.id) && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+          {hasSiblings && (
+            <button onClick={() => toggleCompare(image)} title="Compare with a sibling" className={`p-1.5 rounded-md transition-colors ${isCompared ? 'text-cyan-600 bg-cyan-100 dark:bg-cyan-900/40' : 'text-slate-400 hover:text-cyan-600'}`}>
+              <Columns className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={() => { setBranchFromId(branchFromId === image.id ? null : image.id); setInstruction(''); }} title="Branch from this version" className={`p-1.5 rounded-md transition-colors ${branchFromId === image.id ? 'text-cyan-600 bg-cyan-100 dark:bg-cyan-900/40' : 'text-slate-400 hover:text-cyan-600'}`}>
+            <GitBranch className="w-4 h-4" />
+          </button>
+        </div>
+
+        {branchFromId === image.id && (
+          <form onSubmit={submitBranch} className="flex items-center gap-2 ml-8 my-2">
+            <CornerDownRight className="w-4 h-4 text-slate-400 shrink-0" />
+            <input
+              autoFocus
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Describe the edit for a new branch..."
+              className="flex-1 px-3 py-2 bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg text-xs text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500"
+            />
+            <button type="submit" disabled={!instruction.trim()} className="px-3 py-2 rounded-lg bg-cyan-600 text-white text-xs font-bold disabled:opacity-40">Branch</button>
+          </form>
+        )}
+
+        {node.children.length > 0 && (
+          <ul className="ml-6 pl-3 border-l border-slate-200 dark:border-white/10 space-y-1">
+            {node.children.map(child => renderNode(child, node.children.length > 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto mt-8 p-6 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-[2rem] shadow-xl">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl text-cyan-600 dark:text-cyan-400">
+          <GitBranch className="w-5 h-5" />
+        </div>
+        <div>
+          <h3 className="font-display font-bold text-lg text-slate-900 dark:text-white">Version History</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">Restore any version, branch a new edit from it, or compare edits made from the same parent.</p>
+        </div>
+      </div>
+
+      <ScoreTrend versions={getAncestry(images, currentImage)} currentImageId={currentImage.id} onSelect={onSelect} />
+
+      <ul className="space-y-1">{renderNode(tree, false)}</ul>
+
+      {compared.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-slate-200 dark:border-white/10">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+              {compared.length === 2 ? 'Comparing siblings' : 'Pick a sibling to compare'}
+            </p>
+            <button onClick={() => setCompareIds([])} title="Close comparison" className="p-1 rounded-md text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {compared.map(image => (
+              <div key={image.id} className="rounded-2xl overflow-hidden border border-slate-200 dark:border-white/10">
+                <img src={image.data} alt={describe(image)} className="w-full h-auto bg-slate-100 dark:bg-slate-950" />
+                <div className="p-3 flex items-center gap-2">
+                  <p className="flex-1 text-xs text-slate-600 dark:text-slate-300 truncate" title={describe(image)}>{describe(image)}</p>
+                  <button onClick={() => onSelect(image.id)} disabled={image.id === currentImage.id} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-bold disabled:opacity-40">
+                    <Check className="w-3 h-3" /> Restore
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionTree;
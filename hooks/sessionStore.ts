@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage } from '../types';
+
+/**
+ * Session history keyed by image id. Every change goes through sessionReducer, so async
+ * results merge into the latest version of their image instead of a copy captured when they started.
+ */
+export interface SessionState {
+  imagesById: Record<string, GeneratedImage>;
+  order: string[]; // Newest first, as shown in history
+  selectedId: string | null;
+}
+
+// 'ifViewing' only moves the user to the new image when they are still looking at sourceId
+export type FocusPolicy = 'always' | 'never' | 'ifViewing';
+
+export type SessionAction =
+  | { type: 'add'; images: GeneratedImage[]; focus: FocusPolicy; sourceId?: string }
+  | { type: 'append'; images: GeneratedImage[] } // Oldest end, e.g. images restored alongside resumed jobs
+  | { type: 'update'; id: string; changes: Partial<GeneratedImage> | ((image: GeneratedImage) => Partial<GeneratedImage>) }
+  | { type: 'select'; id: string }
+  | { type: 'restore'; image: GeneratedImage; versions?: GeneratedImage[] }; // Open a library item with its saved versions
+
+export const initialSessionState: SessionState = {
+  imagesById: {},
+  order: [],
+  selectedId: null
+};
+
+const withImages = (state: SessionState, images: GeneratedImage[]) => {
+  const fresh = images.filter(image => !state.imagesById[image.id]);
+  const imagesById = { ...state.imagesById };
+  fresh.forEach(image => { imagesById[image.id] = image; });
+  return { fresh, imagesById };
+};
+
+export const sessionReducer = (state: SessionState, action: SessionAction): SessionState => {
+  switch (action.type) {
+    case 'add': {
+      const { fresh, imagesById } = withImages(state, action.images);
+      if (fresh.length === 0) return state;
+      const shouldFocus = state.selectedId === null
+        || action.focus === 'always'
+        || (action.focus === 'ifViewing' && state.selectedId === action.sourceId);
+      return {
+        imagesById,
+        order: [...fresh.map(image => image.id), ...state.order],
+        selectedId: shouldFocus ? fresh[0].id : state.selectedId
+      };
+    }
+    case 'append': {
+      const { fresh, imagesById } = withImages(state, action.images);
+      if (fresh.length === 0) return state;
+      return {
+        imagesById,
+        order: [...state.order, ...fresh.map(image => image.id)],
+        selectedId: state.selectedId ?? fresh[0].id
+      };
+    }
+    case 'update': {
+      const current = state.imagesById[action.id];
+      if (!current) return state;
+      // A function derives the changes from the latest image, for updates to nested data
+      const changes = typeof action.changes === 'function' ? action.changes(current) : action.changes;
+      return { ...state, imagesById: { ...state.imagesById, [action.id]: { ...current, ...changes } } };
+    }
+    case 'select':
+      return state.imagesById[action.id] ? { ...state, selectedId: action.id } : state;
+    case 'restore': {
+      const withVersions = sessionReducer(state, { type: 'append', images: action.versions || [] });
+      if (withVersions.imagesById[action.image.id]) return { ...withVersions, selectedId: action.image.id };
+      return sessionReducer(withVersions, { type: 'add', images: [action.image], focus: 'always' });
+    }
+    default:
+      return state;
+  }
+};
+
+export const selectHistory = (state: SessionState): GeneratedImage[] => state.order.map(id => state.imagesById[id]);
+
+export const selectCurrentImage = (state: SessionState): GeneratedImage | undefined =>
+  state.selectedId ? state.imagesById[state.selectedId] : undefined;
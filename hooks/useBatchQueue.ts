@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useState, useEffect, useRef } from 'react';
+import { AspectRatio, BatchItem, GeneratedImage, ImageResolution } from '../types';
+import { GenerationProvider, getProvider } from '../services/provider';
+import { getErrorMessage, toGenerationError } from '../services/errors';
+import { saveImageToDB } from '../services/db';
+import { BatchDefaults, parseBatchInput, runWithConcurrency } from '../services/batch';
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// Extras on a finished image leave their field empty when they fail, rather than losing the image
+const unlessFailed = async <T>(promise: Promise<T>): Promise<T | undefined> => {
+  try {
+    return await promise;
+  } catch (err) {
+    if (toGenerationError(err).kind === 'cancelled') throw err;
+    console.error(err);
+    return undefined;
+  }
+};
+
+export interface BatchRunOptions {
+  collection: string;
+  concurrency: number;
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+}
+
+interface UseBatchQueueProps {
+  onImageSaved: (image: GeneratedImage) => void;
+  onAuthError: () => void;
+  provider?: GenerationProvider;
+}
+
+/**
+ * Runs the research → image pipeline over a list of topics, independently of the interactive session.
+ * Each finished image has its text read and a description written, and is saved straight to the library under the run's collection name.
+ */
+export const useBatchQueue = ({ onImageSaved, onAuthError, provider = getProvider() }: UseBatchQueueProps) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const loadInput = (text: string, defaults: BatchDefaults) => {
+    const parsed = parseBatchInput(text, defaults);
+    setItems(parsed.items);
+    setIssues(parsed.issues);
+  };
+
+  const runItem = async (item: BatchItem, options: BatchRunOptions, signal: AbortSignal) => {
+    try {
+      updateItem(item.id, { status: 'researching', error: undefined });
+      const research = await provider.researchTopicForPrompt(item.topic, item.level, item.style, item.language, undefined, signal);
+
+      updateItem(item.id, { status: 'rendering' });
+      const data = await provider.generateInfographicImage(research.imagePrompt, options.aspectRatio, options.resolution, signal);
+      // Read and describe before saving so the library can be searched by the image's text and has alt text
+      const [extractedText, description] = await Promise.all([
+        unlessFailed(provider.extractText(data, signal)),
+        unlessFailed(provider.describeImage(data, item.topic, research.facts.map(f => f.text), item.language, signal))
+      ]);
+
+      const image: GeneratedImage = {
+        id: `${Date.now()}-${item.id}`,
+        data,
+        prompt: item.topic,
+        originalTopic: item.topic,
+        facts: research.facts,
+        timestamp: Date.now(),
+        level: item.level,
+        style: item.style,
+        language: item.language,
+        aspectRatio: options.aspectRatio,
+        resolution: options.resolution,
+        collection: options.collection,
+        extractedText,
+        description
+      };
+      await saveImageToDB(image);
+      onImageSaved(image);
+      updateItem(item.id, { status: 'done', imageId: image.id });
+    } catch (err) {
+      const generationError = toGenerationError(err);
+      if (generationError.kind === 'cancelled') {
+        updateItem(item.id, { status: 'cancelled' });
+        return;
+      }
+      console.error(generationError);
+      updateItem(item.id, { status: 'failed', error: getErrorMessage(generationError) });
+      if (generationError.kind === 'auth') onAuthError();
+    }
+  };
+
+  const runQueue = async (queue: BatchItem[], options: BatchRunOptions) => {
+    if (isRunning || queue.length === 0) return;
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runWithConcurrency(queue, options.concurrency, item => runItem(item, options, controller.signal), controller.signal);
+    } finally {
+      // Items that never started are marked so the table does not show them as still waiting
+      if (controller.signal.aborted) {
+        setItems(prev => prev.map(item => item.status === 'queued' && queue.some(q => q.id === item.id) ? { ...item, status: 'cancelled' } : item));
+      }
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const start = (options: BatchRunOptions) => runQueue(items.filter(item => item.status === 'queued'), options);
+
+  const retryFailed = (options: BatchRunOptions) => {
+    const retryable = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+    setItems(prev => prev.map(item => retryable.includes(item) ? { ...item, status: 'queued', error: undefined } : item));
+    return runQueue(retryable.map(item => ({ ...item, status: 'queued' })), options);
+  };
+
+  const cancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const clear = () => {
+    if (isRunning) return;
+    setItems([]);
+    setIssues([]);
+  };
+
+  return { items, issues, isRunning, loadInput, start, retryFailed, cancel, clear };
+};
@@ -3,39 +3,233 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useCallback } from 'react';
-import { GeneratedImage, ComplexityLevel, VisualStyle, Language, SearchResultItem, VerificationResult, LatLng } from '../types';
-import { 
-  researchTopicForPrompt, 
-  generateInfographicImage, 
-  editInfographicImage, 
-  verifyInfographicAccuracy,
-  generateCinematicSummary
-} from '../services/geminiService';
+import React, { useState, useEffect, useReducer, useRef } from 'react';
+import { Annotation, TextOverlayItem, GeneratedImage, ImageDescription, RepairRun, VerificationResult, VideoJob, ApprovedPlan, VariantCandidate, SeriesSection, SeriesPanel, CitedFact, AspectRatio, ImageResolution, ComplexityLevel, VisualStyle, Language, ResearchResult, SearchResultItem, LatLng } from '../types';
+import { GenerationProvider, getProvider } from '../services/provider';
+import { GenerationError, GenerationErrorKind, getErrorMessage, toGenerationError } from '../services/errors';
+import { getAllVideoJobs, removeVideoJob, saveVideoBlob, saveVideoJob } from '../services/db';
+import { JobKind, useJobs } from './useJobs';
+import { getRootId } from '../services/versionTree';
+import { compositeMaskedEdit, cropImage, flattenLayers, RegionBox, toBinaryMask } from '../services/imageUtils';
+import { replaceWord, SpellingIssue } from '../services/textCheck';
+import { FocusPolicy, initialSessionState, selectCurrentImage, selectHistory, sessionReducer } from './sessionStore';
+
+// A pipeline stage that failed, with everything needed to run just that stage again
+interface FailedStage {
+  label: string;
+  retry: () => void;
+}
+
+// Research waiting for the user to approve it, with the settings it was requested with
+export interface PendingPlan {
+  research: ResearchResult;
+  topic: string;
+  level: ComplexityLevel;
+  style: VisualStyle;
+  language: Language;
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+}
+
+// The researched prompt never lists the facts, so a reviewed plan spells them out to make edits take effect
+const composeRenderPrompt = (plan: ApprovedPlan): string => {
+  const factLines = plan.facts.map((fact, index) => `${index + 1}. ${fact.text}`).join('\n');
+  return `${plan.imagePrompt}\n\nThe infographic must present exactly these facts, in this order:\n${factLines}`;
+};
+
+// Overlay mode keeps words out of the render; they are laid over it as real text afterwards
+const composeTextlessPrompt = (imagePrompt: string): string => {
+  return `${imagePrompt}\n\nRender the illustration with no title, labels, captions or other text. ` +
+    `Leave clear, uncluttered space where a title and short labels can be placed on top later.`;
+};
+
+const MAX_VARIANTS = 4;
+
+// How much surrounding image a region question includes, as a fraction of the region size
+const REGION_CONTEXT_PADDING = 0.25;
+
+// Panels finished so far, so a failed series can resume at the panel that failed
+interface SeriesProgress {
+  sections: SeriesSection[];
+  panels: SeriesPanel[];
+  searchResults: SearchResultItem[];
+}
+
+// Every panel repeats the same framing so the series reads as one consistent set
+const composeSeriesPanelPrompt = (imagePrompt: string, seriesTopic: string, section: SeriesSection, index: number, total: number): string => {
+  return `${imagePrompt}\n\nThis is panel ${index + 1} of ${total} in a series about "${seriesTopic}", titled "${section.title}". ` +
+    `Keep the palette, typography, title banner position and layout grid identical across all panels, and show "${index + 1}/${total}" in a corner.`;
+};
+
+const topicOf = (image: GeneratedImage) => image.originalTopic || image.prompt;
+
+// A series holds one verification for several images, and image.data is only its first panel
+const SERIES_VERIFICATION_ERROR = 'Verification and auto-repair check a single image; they are not available for a series.';
+
+const verificationFactsOf = (image: GeneratedImage): string[] =>
+  image.facts?.map(f => f.text) || ["General knowledge about " + image.prompt];
+
+// Overlay text is part of what the reader sees, so verification looks at it too
+const getVerifiableData = (image: GeneratedImage): Promise<string> =>
+  image.textOverlay ? flattenLayers(image.data, image.textOverlay, []) : Promise.resolve(image.data);
 
 interface UseInfographicSessionProps {
   onAuthError: () => void;
+  onVideoReady?: (imageId: string, videoUri: string) => void;
+  provider?: GenerationProvider;
 }
 
-export const useInfographicSession = ({ onAuthError }: UseInfographicSessionProps) => {
+export const useInfographicSession = ({ onAuthError, onVideoReady, provider = getProvider() }: UseInfographicSessionProps) => {
   const [topic, setTopic] = useState('');
   const [complexityLevel, setComplexityLevel] = useState<ComplexityLevel>('High School');
   const [visualStyle, setVisualStyle] = useState<VisualStyle>('Default');
   const [language, setLanguage] = useState<Language>('English');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [imageResolution, setImageResolution] = useState<ImageResolution>('1K');
   
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState('');
-  const [loadingStep, setLoadingStep] = useState<number>(0);
-  const [loadingFacts, setLoadingFacts] = useState<string[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setErrorState] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<GenerationErrorKind | null>(null);
+  const [failedStage, setFailedStage] = useState<FailedStage | null>(null);
   
-  const [imageHistory, setImageHistory] = useState<GeneratedImage[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(0); 
+  const [session, dispatch] = useReducer(sessionReducer, initialSessionState);
+  const imageHistory = selectHistory(session);
+  const currentImage = selectCurrentImage(session);
+  const historyIndex = Math.max(0, session.selectedId ? session.order.indexOf(session.selectedId) : 0);
   const [currentSearchResults, setCurrentSearchResults] = useState<SearchResultItem[]>([]);
 
-  const addToHistory = (image: GeneratedImage) => {
-      setImageHistory(prev => [image, ...prev]);
-      setHistoryIndex(0);
+  const [reviewPlan, setReviewPlan] = useState(false);
+  const [pendingPlan, setPendingPlan] = useState<PendingPlan | null>(null);
+  const [variantCount, setVariantCountState] = useState(1);
+  const [autoRankVariants, setAutoRankVariants] = useState(false);
+  const [variantCandidates, setVariantCandidates] = useState<VariantCandidate[] | null>(null);
+  const [seriesMode, setSeriesMode] = useState(false);
+  const [textOverlayMode, setTextOverlayMode] = useState(false);
+
+  const { jobs, startJob, updateJob, completeJob, failJob, cancelJob, dismissJob, clearFinished } = useJobs();
+
+  // The generation the Loading screen is showing; every other job only appears in the jobs tray.
+  // Mirrored in a ref so jobs finishing later can tell whether the user is still watching them.
+  const [foregroundJobId, setForegroundJobIdState] = useState<string | null>(null);
+  const foregroundJobIdRef = useRef<string | null>(null);
+  const setForegroundJobId = (jobId: string | null) => {
+    foregroundJobIdRef.current = jobId;
+    setForegroundJobIdState(jobId);
+  };
+  const isForeground = (jobId: string) => foregroundJobIdRef.current === jobId;
+
+  // Image currently on screen, read by jobs that finish after the user has moved on
+  const viewedImageIdRef = useRef<string | null>(null);
+  viewedImageIdRef.current = session.selectedId;
+
+  const foregroundJob = jobs.find(job => job.id === foregroundJobId && job.status === 'running');
+  const isLoading = !!foregroundJob;
+  const loadingMessage = foregroundJob?.message || '';
+  const loadingStep = foregroundJob?.step || 0;
+  const loadingFacts = foregroundJob?.facts || [];
+
+  const isJobRunning = (kind: JobKind, imageId: string) =>
+    jobs.some(job => job.status === 'running' && job.kind === kind && job.imageId === imageId);
+
+  const updateImage = (imageId: string, changes: Partial<GeneratedImage> | ((image: GeneratedImage) => Partial<GeneratedImage>)) => {
+    dispatch({ type: 'update', id: imageId, changes });
+  };
+
+  // The latest run is what the image shows; every run is kept so scores can be compared across edits
+  const recordVerification = (imageId: string, result: VerificationResult) => {
+    updateImage(imageId, image => ({ verification: result, verificationRuns: [...(image.verificationRuns || []), result] }));
+  };
+
+  // A result the user is not looking at is added without moving them off the image they are viewing
+  const addToHistory = (images: GeneratedImage[], focus: FocusPolicy, sourceId?: string) => {
+      dispatch({ type: 'add', images, focus, sourceId });
+  };
+
+  const setHistoryIndex = (index: number) => {
+      const id = session.order[index];
+      if (id) dispatch({ type: 'select', id });
+  };
+
+  const selectImage = (imageId: string) => {
+      dispatch({ type: 'select', id: imageId });
+  };
+
+  const restoreImage = (image: GeneratedImage, versions?: GeneratedImage[]) => {
+      dispatch({ type: 'restore', image, versions });
+  };
+
+  const attachVideo = (imageId: string, videoUri: string) => {
+    updateImage(imageId, { videoUri });
+    onVideoReady?.(imageId, videoUri);
+  };
+
+  /**
+   * Polls a persisted Veo job to completion, stores the MP4 and returns a playable URL.
+   * Failures are recorded on the job so it is not resumed again.
+   */
+  const completeVideoJob = async (job: VideoJob, signal: AbortSignal): Promise<string> => {
+    try {
+      const blob = await provider.awaitCinematicSummary(job.operationName, job.createdAt, signal);
+      await saveVideoBlob(job.imageId, blob);
+      await removeVideoJob(job.imageId);
+      return URL.createObjectURL(blob);
+    } catch (err) {
+      const generationError = toGenerationError(err);
+      if (generationError.kind !== 'cancelled') {
+        saveVideoJob({ ...job, status: 'failed', error: generationError.message }).catch(console.error);
+      }
+      throw generationError;
+    }
+  };
+
+  // Resume renders that were still running when the page was last closed
+  useEffect(() => {
+    let disposed = false;
+    const startedJobIds: string[] = [];
+    const resumeVideoJobs = async () => {
+      let videoJobs: VideoJob[];
+      try { videoJobs = await getAllVideoJobs(); } catch (e) { console.error(e); return; }
+      if (disposed) return;
+
+      videoJobs.filter(job => job.status === 'failed').forEach(job => removeVideoJob(job.imageId).catch(console.error));
+      const pending = videoJobs.filter(job => job.status === 'pending');
+      if (pending.length === 0) return;
+
+      dispatch({ type: 'append', images: pending.map(job => job.image) });
+      pending.forEach(videoJob => {
+        const { id: jobId, signal } = startJob('animate', `Animate: ${topicOf(videoJob.image)}`, {
+          imageId: videoJob.imageId,
+          step: 3,
+          message: 'Resuming cinematic render...'
+        });
+        startedJobIds.push(jobId);
+        completeVideoJob(videoJob, signal)
+          .then(videoUri => { attachVideo(videoJob.imageId, videoUri); completeJob(jobId); })
+          .catch(err => reportFailure(failJob(jobId, err), undefined, false));
+      });
+    };
+    resumeVideoJobs();
+    return () => {
+      disposed = true;
+      startedJobIds.forEach(jobId => { cancelJob(jobId); dismissJob(jobId); });
+    };
+  }, []);
+
+  // Cancelling a render also forgets its persisted Veo job, so it is not resumed on the next load
+  const handleCancelJob = (jobId: string) => {
+    const job = jobs.find(j => j.id === jobId);
+    cancelJob(jobId);
+    if (job?.kind === 'animate' && job.imageId) removeVideoJob(job.imageId).catch(console.error);
+    if (isForeground(jobId)) setForegroundJobId(null);
+  };
+
+  const handleCancel = () => {
+    if (foregroundJobIdRef.current) handleCancelJob(foregroundJobIdRef.current);
+    setError(null);
+  };
+
+  // Hides the Loading screen; the generation keeps running in the jobs tray
+  const handleRunInBackground = () => {
+    setForegroundJobId(null);
   };
 
   const getUserLocation = (): Promise<LatLng | undefined> => {
@@ -49,177 +243,691 @@ export const useInfographicSession = ({ onAuthError }: UseInfographicSessionProp
     });
   };
 
-  const handleError = (err: any) => {
-      console.error(err);
-      if (err.message && (err.message.includes("Requested entity was not found") || err.message.includes("404") || err.message.includes("403"))) {
-          setError("Access denied. Ensure you have a paid API key selected for these models.");
-          onAuthError();
-      } else {
-          setError(err.message || 'An unexpected error occurred.');
-      }
+  // Plain messages set from outside the pipeline carry no kind and cannot be retried
+  const setError = (message: string | null) => {
+      setErrorState(message);
+      setErrorKind(null);
+      setFailedStage(null);
+  };
+
+  /**
+   * Surfaces a failed job. Every failure stays in the jobs tray; only ones the user is
+   * looking at (the foreground generation or the image on screen) also take over the error panel.
+   */
+  const reportFailure = (generationError: GenerationError, stage: FailedStage | undefined, visible: boolean) => {
+      if (generationError.kind === 'cancelled') return;
+      if (generationError.kind === 'auth') onAuthError();
+      if (!visible) return;
+      setErrorState(getErrorMessage(generationError));
+      setErrorKind(generationError.kind);
+      setFailedStage(stage || null);
+  };
+
+  const handleRetryStage = () => {
+      if (!failedStage) return;
+      failedStage.retry();
   };
 
   const executeGeneration = async (
     t: string, 
     l: ComplexityLevel, 
     v: VisualStyle, 
-    lng: Language
+    lng: Language,
+    ar: AspectRatio,
+    res: ImageResolution,
+    existingResearch?: ResearchResult,
+    approvedPlan?: ApprovedPlan
   ) => {
-    if (isLoading || !t.trim()) return;
+    if (!t.trim()) return;
 
-    setIsLoading(true);
+    const { id: jobId, signal } = startJob('generate', t, { message: `Consulting Knowledge Base...`, step: 1 });
+    setForegroundJobId(jobId);
     setError(null);
-    setLoadingStep(1);
-    setLoadingFacts([]);
+    setPendingPlan(null);
+    setVariantCandidates(null);
     setCurrentSearchResults([]);
-    setLoadingMessage(`Consulting Knowledge Base...`);
 
+    let researchResult = existingResearch;
     try {
-      const location = await getUserLocation();
-      const researchResult = await researchTopicForPrompt(t, l, v, lng, location);
-      
-      setLoadingFacts(researchResult.facts);
-      setCurrentSearchResults(researchResult.searchResults);
-      
-      setLoadingStep(2);
-      setLoadingMessage(`Synthesizing Visual Layout...`);
+      if (!researchResult) {
+        const location = await getUserLocation();
+        researchResult = await provider.researchTopicForPrompt(t, l, v, lng, location, signal);
+      }
       
-      let base64Data = await generateInfographicImage(researchResult.imagePrompt);
+      if (signal.aborted) return;
+      if (isForeground(jobId)) setCurrentSearchResults(researchResult.searchResults);
+
+      // Fresh research stops here when the user wants to sign off the plan first
+      if (!existingResearch && reviewPlan) {
+        setPendingPlan({ research: researchResult, topic: t, level: l, style: v, language: lng, aspectRatio: ar, resolution: res });
+        completeJob(jobId, { message: 'Plan ready for review' });
+        return;
+      }
+
+      const facts = approvedPlan ? approvedPlan.facts : researchResult.facts;
+      updateJob(jobId, {
+        facts,
+        step: 2,
+        message: variantCount > 1 ? `Synthesizing ${variantCount} Layout Variants...` : `Synthesizing Visual Layout...`
+      });
       
-      const newImage: GeneratedImage = {
-        id: Date.now().toString(),
+      const basePrompt = approvedPlan ? composeRenderPrompt(approvedPlan) : researchResult.imagePrompt;
+      const renderPrompt = textOverlayMode ? composeTextlessPrompt(basePrompt) : basePrompt;
+      const layoutText = async (base64Data: string) => {
+        if (!textOverlayMode) return undefined;
+        return provider.layoutTextOverlay(base64Data, t, facts.map(f => f.text), lng, signal);
+      };
+      const buildImage = (base64Data: string, id: string, textOverlay?: TextOverlayItem[], variantGroupId?: string): GeneratedImage => ({
+        id,
+        rootId: id,
         data: base64Data,
         prompt: t,
         originalTopic: t,
-        facts: researchResult.facts,
+        facts,
+        approvedPlan,
+        variantGroupId,
         timestamp: Date.now(),
         level: l,
         style: v,
-        language: lng
-      };
+        language: lng,
+        aspectRatio: ar,
+        resolution: res,
+        textOverlay
+      });
+
+      if (variantCount <= 1) {
+        const base64Data = await provider.generateInfographicImage(renderPrompt, ar, res, signal);
+        if (signal.aborted) return;
+        if (textOverlayMode) updateJob(jobId, { message: 'Laying Out Text...' });
+        const textOverlay = await layoutText(base64Data);
+        if (signal.aborted) return;
+        const image = buildImage(base64Data, Date.now().toString(), textOverlay);
+        addToHistory([image], isForeground(jobId) ? 'always' : 'never');
+        completeJob(jobId, { imageId: image.id });
+        analyzeImage(image);
+        return;
+      }
+
+      const candidates = await renderVariants(renderPrompt, ar, res, signal);
+      if (signal.aborted) return;
+      if (textOverlayMode) updateJob(jobId, { message: 'Laying Out Text...' });
+      const overlays = await Promise.all(candidates.map(layoutText));
+      if (signal.aborted) return;
+      const variantGroupId = Date.now().toString();
+      let images = candidates.map((data, index) => buildImage(data, `${variantGroupId}-${index + 1}`, overlays[index], variantGroupId));
 
-      addToHistory(newImage);
+      if (autoRankVariants) {
+        updateJob(jobId, { message: `Ranking Variants by Accuracy...` });
+        images = await rankVariants(images, facts.map(f => f.text), signal);
+        if (signal.aborted) return;
+      }
+      setVariantCandidates(images.map((image, index) => ({ image, rank: autoRankVariants ? index + 1 : undefined })));
+      completeJob(jobId, { message: `${images.length} variants ready` });
     } catch (err: any) {
-      handleError(err);
+      // Keep finished research so a failed render does not repeat the search
+      const research = researchResult;
+      const stage: FailedStage = research
+        ? { label: 'Image Rendering', retry: () => executeGeneration(t, l, v, lng, ar, res, research, approvedPlan) }
+        : { label: 'Research', retry: () => executeGeneration(t, l, v, lng, ar, res) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, isForeground(jobId));
     } finally {
-      setIsLoading(false);
-      setLoadingStep(0);
+      if (isForeground(jobId)) setForegroundJobId(null);
     }
   };
 
+  /**
+   * Renders variantCount candidates in parallel. Individual failures are tolerated;
+   * the first error is only rethrown when every candidate failed.
+   */
+  const renderVariants = async (prompt: string, ar: AspectRatio, res: ImageResolution, signal: AbortSignal): Promise<string[]> => {
+    const settled = await Promise.allSettled(
+      Array.from({ length: variantCount }, () => provider.generateInfographicImage(prompt, ar, res, signal))
+    );
+    const rendered = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    if (rendered.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+    return rendered;
+  };
+
+  // Best score first; a candidate whose verification failed keeps its place behind the scored ones
+  const rankVariants = async (images: GeneratedImage[], facts: string[], signal: AbortSignal): Promise<GeneratedImage[]> => {
+    const settled = await Promise.allSettled(images.map(async image => provider.verifyInfographicAccuracy(await getVerifiableData(image), facts, signal)));
+    const verified = images.map((image, index) => {
+      const result = settled[index];
+      return result.status === 'fulfilled' ? { ...image, verification: result.value, verificationRuns: [result.value] } : image;
+    });
+    return verified.sort((a, b) => (b.verification?.score ?? -1) - (a.verification?.score ?? -1));
+  };
+
+  const setVariantCount = (count: number) => {
+    setVariantCountState(Math.min(MAX_VARIANTS, Math.max(1, Math.round(count))));
+  };
+
+  const handleChooseVariant = (imageId: string, keepSiblings: boolean) => {
+    if (!variantCandidates) return;
+    const chosen = variantCandidates.find(c => c.image.id === imageId);
+    if (!chosen) return;
+    const siblings = keepSiblings ? variantCandidates.filter(c => c !== chosen).map(c => c.image) : [];
+    addToHistory([chosen.image, ...siblings], 'always');
+    setVariantCandidates(null);
+    analyzeImage(chosen.image);
+  };
+
+  const handleDiscardVariants = () => {
+    setVariantCandidates(null);
+  };
+
+  /**
+   * Series mode: outlines the topic into sections, then researches and renders one panel per section.
+   * Panels share one style and are added to history as a single image.
+   */
+  const executeSeries = async (
+    t: string,
+    l: ComplexityLevel,
+    v: VisualStyle,
+    lng: Language,
+    ar: AspectRatio,
+    res: ImageResolution,
+    progress?: SeriesProgress
+  ) => {
+    if (!t.trim()) return;
+
+    const { id: jobId, signal } = startJob('series', t, { message: `Outlining Series Sections...`, step: 1 });
+    setForegroundJobId(jobId);
+    setError(null);
+    setPendingPlan(null);
+    setVariantCandidates(null);
+    setCurrentSearchResults(progress?.searchResults || []);
+
+    let sections = progress?.sections;
+    const panels: SeriesPanel[] = [...(progress?.panels || [])];
+    const searchResults: SearchResultItem[] = [...(progress?.searchResults || [])];
+    try {
+      if (!sections) sections = await provider.planSeriesSections(t, l, lng, signal);
+      const location = await getUserLocation();
+
+      for (let index = panels.length; index < sections.length; index++) {
+        const section = sections[index];
+        updateJob(jobId, { step: 1, message: `Researching Panel ${index + 1}/${sections.length}: ${section.title}...` });
+        const research = await provider.researchTopicForPrompt(`${t} — ${section.title}: ${section.focus}`, l, v, lng, location, signal);
+        if (signal.aborted) return;
+        research.searchResults.forEach(result => {
+          if (!searchResults.some(existing => existing.url === result.url)) searchResults.push(result);
+        });
+        if (isForeground(jobId)) setCurrentSearchResults([...searchResults]);
+
+        updateJob(jobId, { facts: research.facts, step: 2, message: `Rendering Panel ${index + 1}/${sections.length}: ${section.title}...` });
+        const prompt = composeSeriesPanelPrompt(research.imagePrompt, t, section, index, sections.length);
+        const data = await provider.generateInfographicImage(prompt, ar, res, signal);
+        if (signal.aborted) return;
+        panels.push({ title: section.title, data, facts: research.facts });
+      }
+
+      const id = Date.now().toString();
+      const image: GeneratedImage = {
+        id,
+        rootId: id,
+        data: panels[0].data,
+        prompt: t,
+        originalTopic: t,
+        facts: panels.flatMap(panel => panel.facts),
+        panels,
+        timestamp: Date.now(),
+        level: l,
+        style: v,
+        language: lng,
+        aspectRatio: ar,
+        resolution: res
+      };
+      addToHistory([image], isForeground(jobId) ? 'always' : 'never');
+      completeJob(jobId, { imageId: image.id });
+    } catch (err: any) {
+      const resume: SeriesProgress | undefined = sections ? { sections, panels, searchResults } : undefined;
+      const stage: FailedStage = { label: resume ? `Panel ${panels.length + 1}` : 'Series Outline', retry: () => executeSeries(t, l, v, lng, ar, res, resume) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, isForeground(jobId));
+    } finally {
+      if (isForeground(jobId)) setForegroundJobId(null);
+    }
+  };
+
+  const handleApprovePlan = async (facts: CitedFact[], imagePrompt: string) => {
+    if (!pendingPlan) return;
+    const { research, topic: t, level, style, language: lng, aspectRatio: ar, resolution } = pendingPlan;
+    const edited = imagePrompt !== research.imagePrompt
+      || facts.length !== research.facts.length
+      || facts.some((fact, index) => fact.text !== research.facts[index].text);
+    const approvedPlan: ApprovedPlan = {
+      facts,
+      imagePrompt,
+      layoutHints: research.layoutHints,
+      keyTerms: research.keyTerms,
+      edited,
+      approvedAt: Date.now()
+    };
+    await executeGeneration(t, level, style, lng, ar, resolution, { ...research, facts, imagePrompt }, approvedPlan);
+  };
+
+  const handleDiscardPlan = () => {
+    setPendingPlan(null);
+  };
+
   const handleGenerate = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    await executeGeneration(topic, complexityLevel, visualStyle, language);
+    if (seriesMode) {
+      await executeSeries(topic, complexityLevel, visualStyle, language, aspectRatio, imageResolution);
+      return;
+    }
+    await executeGeneration(topic, complexityLevel, visualStyle, language, aspectRatio, imageResolution);
   };
 
-  const handleAutoGenerate = async (t: string, l: ComplexityLevel, v: VisualStyle, lng: Language) => {
+  const handleAutoGenerate = async (
+    t: string, 
+    l: ComplexityLevel, 
+    v: VisualStyle, 
+    lng: Language,
+    ar: AspectRatio = '16:9',
+    res: ImageResolution = '1K'
+  ) => {
       setTopic(t);
       setComplexityLevel(l);
       setVisualStyle(v);
       setLanguage(lng);
-      await executeGeneration(t, l, v, lng);
+      setAspectRatio(ar);
+      setImageResolution(res);
+      await executeGeneration(t, l, v, lng, ar, res);
   };
 
-  const handleAnimate = async () => {
-    if (imageHistory.length === 0) return;
-    const currentImage = imageHistory[historyIndex];
-    if (currentImage.videoUri) return; // Already animated
+  const animateImage = async (image: GeneratedImage) => {
+    if (image.videoUri || isJobRunning('animate', image.id)) return;
+    const { id: jobId, signal } = startJob('animate', `Animate: ${topicOf(image)}`, {
+      imageId: image.id,
+      step: 3,
+      message: `Cinematic Animation Processing... (May take 1-2 mins)`
+    });
 
-    setIsLoading(true);
+    try {
+        const startedAt = Date.now();
+        const operationName = await provider.startCinematicSummary(topicOf(image), image.data, image.aspectRatio, signal);
+        const videoJob: VideoJob = {
+          imageId: image.id,
+          operationName,
+          status: 'pending',
+          image: { ...image, videoUri: undefined },
+          createdAt: startedAt
+        };
+        // Persisting is best-effort: without it the render still completes, it just cannot resume
+        await saveVideoJob(videoJob).catch(console.error);
+
+        const videoUri = await completeVideoJob(videoJob, signal);
+        if (signal.aborted) return;
+        attachVideo(image.id, videoUri);
+        completeJob(jobId);
+    } catch (err: any) {
+        const stage: FailedStage = { label: 'Animation', retry: () => animateImage(image) };
+        reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
+    }
+  };
+
+  // For a series only the panel being viewed is edited; the result is a new version of the whole series
+  // With a region mask, the model is told which area to change and everything outside it is pasted back from the source
+  const renderEdit = async (image: GeneratedImage, editPrompt: string, panelIndex: number, regionMask: string | undefined, signal: AbortSignal): Promise<GeneratedImage> => {
+    const panel = image.panels?.[panelIndex];
+    const source = panel ? panel.data : image.data;
+    const modelMask = regionMask ? await toBinaryMask(regionMask) : undefined;
+    let base64Data = await provider.editInfographicImage(source, editPrompt, image.aspectRatio, modelMask, signal);
+    if (regionMask) base64Data = await compositeMaskedEdit(source, base64Data, regionMask);
+    const panels = image.panels?.map((p, i) => i === panelIndex ? { ...p, data: base64Data } : p);
+    return {
+      ...image,
+      id: Date.now().toString(),
+      data: panels ? panels[0].data : base64Data,
+      panels,
+      prompt: editPrompt,
+      rootId: getRootId(image),
+      parentId: image.id,
+      editInstruction: editPrompt,
+      timestamp: Date.now(),
+      verification: undefined,
+      verificationRuns: undefined,
+      narrationAudio: undefined,
+      factHotspots: undefined,
+      extractedText: undefined,
+      description: undefined,
+      repairRun: undefined,
+      videoUri: undefined // Reset video on edit
+    };
+  };
+
+  const editImage = async (image: GeneratedImage, editPrompt: string, panelIndex: number = 0, regionMask?: string) => {
+    const { id: jobId, signal } = startJob('edit', `${regionMask ? 'Refine region' : 'Refine'}: "${editPrompt}"`, {
+      imageId: image.id,
+      step: 2,
+      message: `Refining ${regionMask ? 'Region' : 'Canvas'}: "${editPrompt}"...`
+    });
     setError(null);
-    setLoadingStep(3); // Specialized video step
-    setLoadingMessage(`Cinematic Animation Processing... (May take 1-2 mins)`);
 
     try {
-        const videoUri = await generateCinematicSummary(currentImage.originalTopic || currentImage.prompt, currentImage.data);
-        
-        // Update history item with video
-        const updatedImage = { ...currentImage, videoUri };
-        const newHistory = [...imageHistory];
-        newHistory[historyIndex] = updatedImage;
-        setImageHistory(newHistory);
+      const newImage = await renderEdit(image, editPrompt, panelIndex, regionMask, signal);
+      if (signal.aborted) return;
+      addToHistory([newImage], 'ifViewing', image.id);
+      completeJob(jobId, { imageId: newImage.id });
+      analyzeImage(newImage);
     } catch (err: any) {
-        handleError(err);
-    } finally {
-        setIsLoading(false);
-        setLoadingStep(0);
+      const stage: FailedStage = { label: 'Refinement', retry: () => editImage(image, editPrompt, panelIndex, regionMask) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
     }
   };
 
-  const handleEdit = async (editPrompt: string) => {
-    if (imageHistory.length === 0) return;
-    const currentImage = imageHistory[historyIndex];
-    setIsLoading(true);
-    setError(null);
-    setLoadingStep(2);
-    setLoadingMessage(`Refining Canvas: "${editPrompt}"...`);
+  const verifyImage = async (image: GeneratedImage) => {
+    if (isJobRunning('verify', image.id)) return;
+    if (image.panels) {
+      setError(SERIES_VERIFICATION_ERROR);
+      return;
+    }
+    const facts = verificationFactsOf(image);
+    const { id: jobId, signal } = startJob('verify', `Verify: ${topicOf(image)}`, {
+      imageId: image.id,
+      step: 2,
+      message: "Validating Visual Data..."
+    });
 
     try {
-      const base64Data = await editInfographicImage(currentImage.data, editPrompt);
-      const newImage: GeneratedImage = {
-        ...currentImage,
-        id: Date.now().toString(),
-        data: base64Data,
-        prompt: editPrompt,
-        timestamp: Date.now(),
-        verification: undefined,
-        videoUri: undefined // Reset video on edit
-      };
-      addToHistory(newImage);
+        const result = await provider.verifyInfographicAccuracy(await getVerifiableData(image), facts, signal);
+        if (signal.aborted) return;
+        recordVerification(image.id, result);
+        completeJob(jobId);
     } catch (err: any) {
-      handleError(err);
-    } finally {
-      setIsLoading(false);
-      setLoadingStep(0);
+        const stage: FailedStage = { label: 'Verification', retry: () => verifyImage(image) };
+        reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
     }
   };
 
-  const handleVerify = async () => {
-    if (imageHistory.length === 0) return;
-    const currentImage = imageHistory[historyIndex];
-    const facts = currentImage.facts || ["General knowledge about " + currentImage.prompt];
+  /**
+   * Verifies, applies the suggested fix and verifies again until the score reaches the threshold,
+   * the verifier has no fix to offer, or maxIterations edits have been made. Every step is a new
+   * version in the image's tree. The starting version and every version made carry the run, with the
+   * starting version and its score as step 0, so the user can jump between steps from any of them.
+   */
+  const repairImage = async (image: GeneratedImage, threshold: number, maxIterations: number) => {
+    if (isJobRunning('repair', image.id)) return;
+    if (image.panels) {
+      setError(SERIES_VERIFICATION_ERROR);
+      return;
+    }
+    const facts = verificationFactsOf(image);
+    const { id: jobId, signal } = startJob('repair', `Auto-repair: ${topicOf(image)}`, {
+      imageId: image.id,
+      step: 2,
+      message: 'Verifying...'
+    });
+    setError(null);
+
+    const run: RepairRun = { threshold, maxIterations, steps: [] };
+    const producedIds: string[] = [];
+    let current = image;
+    try {
+      for (let iteration = 0; ; iteration++) {
+        updateJob(jobId, { imageId: current.id, message: iteration === 0 ? 'Verifying...' : `Verifying repair ${iteration} of ${maxIterations}...` });
+        let verification = current.verification;
+        if (!verification) {
+          verification = await provider.verifyInfographicAccuracy(await getVerifiableData(current), facts, signal);
+          if (signal.aborted) return;
+          recordVerification(current.id, verification);
+        }
+
+        const isDone = verification.score >= threshold || iteration >= maxIterations || !verification.suggestedFix;
+        run.steps = [...run.steps, { imageId: current.id, score: verification.score, fix: isDone ? undefined : verification.suggestedFix }];
+        const snapshot = { ...run };
+        [image.id, ...producedIds].forEach(id => updateImage(id, { repairRun: snapshot }));
+        if (isDone) break;
+
+        updateJob(jobId, { message: `Repair ${iteration + 1} of ${maxIterations}: "${verification.suggestedFix}"` });
+        const repaired = await renderEdit(current, verification.suggestedFix!, 0, undefined, signal);
+        if (signal.aborted) return;
+        producedIds.push(repaired.id);
+        addToHistory([{ ...repaired, repairRun: { ...run } }], 'ifViewing', current.id);
+        current = repaired;
+      }
+      const best = run.steps.reduce((a, b) => b.score > a.score ? b : a);
+      completeJob(jobId, { imageId: current.id, message: `Best score ${best.score}/100 after ${producedIds.length} repair${producedIds.length !== 1 ? 's' : ''}` });
+      if (producedIds.length > 0) analyzeImage(current);
+    } catch (err: any) {
+      // Versions made before the failure stay in the tree; retrying continues from the last one
+      const stage: FailedStage = { label: 'Auto-Repair', retry: () => repairImage(current, threshold, maxIterations - producedIds.length) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === current.id);
+    }
+  };
 
-    setIsLoading(true);
-    setLoadingMessage("Validating Visual Data...");
-    setLoadingStep(2);
+  const narrateImage = async (image: GeneratedImage) => {
+    if (image.narrationAudio || isJobRunning('narrate', image.id)) return;
+    const { id: jobId, signal } = startJob('narrate', `Narrate: ${topicOf(image)}`, {
+      imageId: image.id,
+      step: 2,
+      message: 'Recording audio summary...'
+    });
 
     try {
-        const result: VerificationResult = await verifyInfographicAccuracy(currentImage.data, facts);
-        const updatedImage = { ...currentImage, verification: result };
-        const newHistory = [...imageHistory];
-        newHistory[historyIndex] = updatedImage;
-        setImageHistory(newHistory);
+        // A series is narrated end to end, panel by panel
+        const facts = image.panels
+          ? image.panels.flatMap(panel => panel.facts.map(f => `${panel.title}: ${f.text}`))
+          : image.facts?.map(f => f.text) || [];
+        const audio = await provider.generateAudioNarration(topicOf(image), facts, image.language || 'English', signal);
+        if (signal.aborted) return;
+        updateImage(image.id, { narrationAudio: audio });
+        completeJob(jobId);
     } catch (err: any) {
-        handleError(err);
-    } finally {
-        setIsLoading(false);
-        setLoadingStep(0);
+        const stage: FailedStage = { label: 'Narration', retry: () => narrateImage(image) };
+        reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
     }
   };
 
-  const handleRefreshNews = async () => {
-    if (imageHistory.length === 0) return;
-    const currentTopic = imageHistory[historyIndex].prompt;
-    setIsLoading(true);
-    setLoadingMessage('Fetching Geographic & Search Updates...');
-    setLoadingStep(1);
+  const refreshSources = async (image: GeneratedImage) => {
+    const { id: jobId, signal } = startJob('refresh', `Refresh sources: ${image.prompt}`, {
+      imageId: image.id,
+      step: 1,
+      message: 'Fetching Geographic & Search Updates...'
+    });
     try {
       const location = await getUserLocation();
-      const researchResult = await researchTopicForPrompt(currentTopic, complexityLevel, visualStyle, language, location);
-      setCurrentSearchResults(researchResult.searchResults);
-      if (researchResult.facts.length > 0) setLoadingFacts(researchResult.facts);
-    } catch (err: any) { handleError(err); } finally { setIsLoading(false); setLoadingStep(0); }
+      const researchResult = await provider.researchTopicForPrompt(image.prompt, complexityLevel, visualStyle, language, location, signal);
+      if (signal.aborted) return;
+      if (viewedImageIdRef.current === image.id) setCurrentSearchResults(researchResult.searchResults);
+      completeJob(jobId);
+    } catch (err: any) {
+      const stage: FailedStage = { label: 'Source Refresh', retry: () => refreshSources(image) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
+    }
+  };
+
+  const locateFacts = async (image: GeneratedImage) => {
+    if (!image.facts?.length || isJobRunning('locate', image.id)) return;
+    const { id: jobId, signal } = startJob('locate', `Find facts: ${topicOf(image)}`, {
+      imageId: image.id,
+      step: 2,
+      message: 'Locating facts in the image...'
+    });
+
+    try {
+      const hotspots = await provider.locateFacts(await getVerifiableData(image), image.facts.map(f => f.text), signal);
+      if (signal.aborted) return;
+      updateImage(image.id, { factHotspots: hotspots });
+      completeJob(jobId, { message: `${hotspots.length} of ${image.facts.length} facts found` });
+    } catch (err: any) {
+      const stage: FailedStage = { label: 'Fact Location', retry: () => locateFacts(image) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
+    }
+  };
+
+  const extractText = async (image: GeneratedImage) => {
+    if (isJobRunning('extract', image.id)) return;
+    const { id: jobId, signal } = startJob('extract', `Read text: ${topicOf(image)}`, {
+      imageId: image.id,
+      step: 2,
+      message: 'Reading the text in the image...'
+    });
+
+    try {
+      const blocks = await provider.extractText(await getVerifiableData(image), signal);
+      if (signal.aborted) return;
+      updateImage(image.id, { extractedText: blocks });
+      completeJob(jobId, { message: `${blocks.length} text block${blocks.length !== 1 ? 's' : ''} found` });
+    } catch (err: any) {
+      const stage: FailedStage = { label: 'Text Extraction', retry: () => extractText(image) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
+    }
+  };
+
+  // Every finished image is read and described straight away, so the library can be searched by its
+  // text and screen readers get real alt text instead of the prompt
+  const analyzeImage = (image: GeneratedImage) => {
+    if (image.panels) return;
+    extractText(image);
+    describeImage(image);
   };
 
+  const describeImage = async (image: GeneratedImage) => {
+    if (isJobRunning('describe', image.id)) return;
+    const { id: jobId, signal } = startJob('describe', `Describe: ${topicOf(image)}`, {
+      imageId: image.id,
+      step: 2,
+      message: 'Writing a description for screen readers...'
+    });
+
+    try {
+      const description = await provider.describeImage(await getVerifiableData(image), topicOf(image), (image.facts || []).map(f => f.text), image.language || language, signal);
+      if (signal.aborted) return;
+      updateImage(image.id, { description });
+      completeJob(jobId);
+    } catch (err: any) {
+      const stage: FailedStage = { label: 'Description', retry: () => describeImage(image) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
+    }
+  };
+
+  const explainFact = async (image: GeneratedImage, factIndex: number) => {
+    const fact = image.facts?.[factIndex];
+    if (!fact || isJobRunning('explain', image.id)) return;
+    const { id: jobId, signal } = startJob('explain', `Tell me more: ${fact.text}`, {
+      imageId: image.id,
+      step: 1,
+      message: 'Looking into it...'
+    });
+
+    try {
+      const explanation = await provider.expandOnFact(topicOf(image), fact.text, image.level || complexityLevel, image.language || language, signal);
+      if (signal.aborted) return;
+      updateImage(image.id, current => ({
+        factHotspots: current.factHotspots?.map(h => h.factIndex === factIndex ? { ...h, explanation } : h)
+      }));
+      completeJob(jobId);
+    } catch (err: any) {
+      const stage: FailedStage = { label: 'Explanation', retry: () => explainFact(image, factIndex) };
+      reportFailure(failJob(jobId, err, stage.retry), stage, viewedImageIdRef.current === image.id);
+    }
+  };
+
+  /**
+   * Asks the vision model about one region. The answer is returned to the caller rather than
+   * stored, since it belongs to the popover that asked; pinning it makes it an annotation.
+   */
+  const askAboutRegion = async (image: GeneratedImage, panelIndex: number, box: RegionBox, question: string): Promise<string | undefined> => {
+    const { id: jobId, signal } = startJob('explain', `Ask: "${question}"`, {
+      imageId: image.id,
+      step: 2,
+      message: 'Looking at the region...'
+    });
+
+    try {
+      const panel = image.panels?.[panelIndex];
+      const source = panel ? panel.data : await getVerifiableData(image);
+      const facts = (panel ? panel.facts : image.facts || []).map(f => f.text);
+      const crop = await cropImage(source, box, REGION_CONTEXT_PADDING);
+      const answer = await provider.explainRegion(crop, question, topicOf(image), facts, image.language || language, signal);
+      if (signal.aborted) return undefined;
+      completeJob(jobId);
+      return answer;
+    } catch (err: any) {
+      reportFailure(failJob(jobId, err), undefined, viewedImageIdRef.current === image.id);
+      return undefined;
+    }
+  };
+
+  const withCurrentImage = (action: (image: GeneratedImage) => void) => () => {
+    if (currentImage) action(currentImage);
+  };
+
+  const handleAnimate = withCurrentImage(animateImage);
+  const handleVerify = withCurrentImage(verifyImage);
+  const handleNarrate = withCurrentImage(narrateImage);
+  const handleRefreshNews = withCurrentImage(refreshSources);
+  const handleLocateFacts = withCurrentImage(locateFacts);
+  const handleExtractText = withCurrentImage(extractText);
+  const handleDescribe = withCurrentImage(describeImage);
+  const handleExplainFact = (factIndex: number) => {
+    if (currentImage) explainFact(currentImage, factIndex);
+  };
+  const handleAutoRepair = (threshold: number, maxIterations: number) => {
+    if (currentImage) repairImage(currentImage, threshold, maxIterations);
+  };
+  const handleAskRegion = async (box: RegionBox, question: string, panelIndex: number = 0) =>
+    currentImage ? askAboutRegion(currentImage, panelIndex, box, question) : undefined;
+  const handleEdit = (editPrompt: string, panelIndex?: number, regionMask?: string) => {
+    if (currentImage) editImage(currentImage, editPrompt, panelIndex, regionMask);
+  };
+  const handleAnnotationsChange = (annotations: Annotation[]) => {
+    if (currentImage) updateImage(currentImage.id, { annotations });
+  };
+  const handleTextOverlayChange = (textOverlay: TextOverlayItem[]) => {
+    if (currentImage) updateImage(currentImage.id, { textOverlay });
+  };
+  // Overlay text is stored as text, so a misspelling there is corrected in place rather than by re-rendering the image
+  const handleFixSpelling = (issue: SpellingIssue) => {
+    if (!currentImage) return;
+    const overlay = currentImage.textOverlay || [];
+    const corrected = overlay.map(item => {
+      const text = replaceWord(item.text, issue.found, issue.expected);
+      return text === item.text ? item : { ...item, text };
+    });
+    if (corrected.some((item, index) => item !== overlay[index])) {
+      updateImage(currentImage.id, {
+        textOverlay: corrected,
+        extractedText: currentImage.extractedText?.map(block => ({ ...block, text: replaceWord(block.text, issue.found, issue.expected) }))
+      });
+    } else {
+      editImage(currentImage, `Correct the spelling of "${issue.found}" to "${issue.expected}". Change nothing else.`);
+    }
+  };
+  const handleDescriptionChange = (description: ImageDescription) => {
+    if (currentImage) updateImage(currentImage.id, { description: { ...description, edited: true } });
+  };
+
+  // Editing an older version adds a sibling branch under it rather than extending the latest one
+  const handleBranch = (imageId: string, editPrompt: string) => {
+    const image = session.imagesById[imageId];
+    if (image) editImage(image, editPrompt);
+  };
+
+  // Opens the image a finished job produced or worked on, wherever it sits in history now
+  const handleOpenJobImage = selectImage;
+
   return {
     topic, setTopic,
     complexityLevel, setComplexityLevel,
     visualStyle, setVisualStyle,
     language, setLanguage,
+    aspectRatio, setAspectRatio,
+    imageResolution, setImageResolution,
     isLoading, loadingMessage, loadingStep, loadingFacts, error, setError,
-    imageHistory, setImageHistory, historyIndex, setHistoryIndex,
+    errorKind, failedStage, handleRetryStage, handleCancel, handleRunInBackground,
+    imageHistory, currentImage, historyIndex, setHistoryIndex, selectImage, restoreImage,
     currentSearchResults, setCurrentSearchResults,
-    handleGenerate, handleAnimate, handleEdit, handleVerify, handleRefreshNews,
-    handleAutoGenerate
+    handleGenerate, handleAnimate, handleEdit, handleVerify, handleNarrate, handleRefreshNews,
+    handleAutoGenerate, handleBranch, handleAnnotationsChange, handleTextOverlayChange,
+    handleLocateFacts, handleExplainFact, handleAskRegion, handleAutoRepair,
+    handleExtractText, handleFixSpelling, handleDescribe, handleDescriptionChange,
+    reviewPlan, setReviewPlan, pendingPlan, handleApprovePlan, handleDiscardPlan,
+    variantCount, setVariantCount, autoRankVariants, setAutoRankVariants,
+    variantCandidates, handleChooseVariant, handleDiscardVariants,
+    seriesMode, setSeriesMode, textOverlayMode, setTextOverlayMode,
+    jobs, isJobRunning, handleCancelJob, dismissJob, clearFinishedJobs: clearFinished, handleOpenJobImage
   };
 };
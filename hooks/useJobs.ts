@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useState, useEffect, useRef } from 'react';
+import { CitedFact } from '../types';
+import { GenerationError, GenerationErrorKind, getErrorMessage, toGenerationError } from '../services/errors';
+
+export type JobKind = 'generate' | 'series' | 'edit' | 'verify' | 'animate' | 'narrate' | 'refresh' | 'locate' | 'explain' | 'repair' | 'extract' | 'describe';
+
+export type JobStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * One tracked operation. Jobs run independently, each with its own AbortController,
+ * and report results against an image id rather than a position in history.
+ */
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  status: JobStatus;
+  message: string;
+  step: number; // Same scale as the Loading screen: 1 research, 2 rendering, 3 video
+  facts?: CitedFact[]; // Research so far, for the Loading ticker
+  imageId?: string; // Image the job works on, or the one it produced once done
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+  errorKind?: GenerationErrorKind;
+  retry?: () => void;
+}
+
+export interface StartedJob {
+  id: string;
+  signal: AbortSignal;
+}
+
+export const useJobs = () => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const startJob = (kind: JobKind, label: string, fields: Partial<Job> = {}): StartedJob => {
+    const id = `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    setJobs(prev => [{ id, kind, label, status: 'running', message: '', step: 1, startedAt: Date.now(), ...fields }, ...prev]);
+    return { id, signal: controller.signal };
+  };
+
+  const updateJob = (id: string, changes: Partial<Job>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...changes } : job));
+  };
+
+  const settle = (id: string, changes: Partial<Job>) => {
+    controllersRef.current.delete(id);
+    updateJob(id, { ...changes, finishedAt: Date.now() });
+  };
+
+  const completeJob = (id: string, changes: Partial<Job> = {}) => {
+    settle(id, { ...changes, status: 'done' });
+  };
+
+  /**
+   * Records a failure on the job and returns the classified error so callers can react to its kind.
+   */
+  const failJob = (id: string, err: unknown, retry?: () => void): GenerationError => {
+    const generationError = toGenerationError(err);
+    if (generationError.kind === 'cancelled') {
+      settle(id, { status: 'cancelled' });
+    } else {
+      console.error(generationError);
+      settle(id, { status: 'failed', error: getErrorMessage(generationError), errorKind: generationError.kind, retry });
+    }
+    return generationError;
+  };
+
+  const cancelJob = (id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (!controller) return; // Already finished
+    controller.abort();
+    settle(id, { status: 'cancelled' });
+  };
+
+  const dismissJob = (id: string) => {
+    setJobs(prev => prev.filter(job => job.id !== id || job.status === 'running'));
+  };
+
+  const clearFinished = () => {
+    setJobs(prev => prev.filter(job => job.status === 'running'));
+  };
+
+  return { jobs, startJob, updateJob, completeJob, failJob, cancelJob, dismissJob, clearFinished };
+};
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Annotation } from '../types';
+
+export const ANNOTATION_COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#0ea5e9', '#8b5cf6', '#0f172a'];
+
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+
+/**
+ * Stroke and text sizes in image pixels. Both the on-screen SVG and the flattened PNG use these,
+ * so an annotation looks the same in the editor and in the export.
+ */
+export interface AnnotationMetrics {
+  stroke: number;
+  fontSize: number;
+  lineHeight: number;
+  padding: number;
+  calloutRadius: number;
+  headSize: number;
+}
+
+export const getAnnotationMetrics = (width: number): AnnotationMetrics => {
+  const fontSize = width * 0.018;
+  return {
+    stroke: width * 0.004,
+    fontSize,
+    lineHeight: fontSize * 1.25,
+    padding: fontSize * 0.5,
+    calloutRadius: width * 0.016,
+    headSize: width * 0.02
+  };
+};
+
+export const getAnnotationFont = (metrics: AnnotationMetrics) => `bold ${metrics.fontSize}px ${FONT_FAMILY}`;
+
+export const annotationsForPanel = (annotations: Annotation[] = [], panelIndex: number = 0) =>
+  annotations.filter(a => (a.panelIndex || 0) === panelIndex);
+
+// Callouts are numbered in the order they were placed
+export const getCalloutNumbers = (annotations: Annotation[]): Map<string, number> => {
+  const numbers = new Map<string, number>();
+  annotations.filter(a => a.kind === 'callout').forEach((a, index) => numbers.set(a.id, index + 1));
+  return numbers;
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Greedy word wrap measured with canvas text metrics, so SVG and canvas break lines identically.
+ */
+export const wrapText = (text: string, maxWidth: number, font: string): string[] => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.split('\n');
+  measureContext.font = font;
+
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureContext!.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+export interface BoxLayout {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  lines: string[];
+}
+
+// Text boxes grow downwards to fit their text
+export const getTextBoxLayout = (a: Annotation, width: number, height: number, metrics: AnnotationMetrics): BoxLayout => {
+  const left = Math.min(a.x, a.x2) * width;
+  const top = Math.min(a.y, a.y2) * height;
+  const boxWidth = Math.max(Math.abs(a.x2 - a.x) * width, metrics.fontSize * 4);
+  const lines = wrapText(a.text || '', boxWidth - metrics.padding * 2, getAnnotationFont(metrics));
+  const textHeight = lines.length * metrics.lineHeight + metrics.padding * 2;
+  return { left, top, width: boxWidth, height: Math.max(Math.abs(a.y2 - a.y) * height, textHeight), lines };
+};
+
+// Callout labels sit to the right of the numbered marker
+export const getCalloutLabelLayout = (a: Annotation, width: number, height: number, metrics: AnnotationMetrics): BoxLayout => {
+  const lines = a.text ? wrapText(a.text, width * 0.25, getAnnotationFont(metrics)) : [];
+  const labelHeight = lines.length * metrics.lineHeight;
+  return {
+    left: a.x * width + metrics.calloutRadius * 1.5,
+    top: a.y * height - labelHeight / 2,
+    width: width * 0.25,
+    height: labelHeight,
+    lines
+  };
+};
+
+export const getArrowHead = (a: Annotation, width: number, height: number, metrics: AnnotationMetrics): [number, number][] => {
+  const tipX = a.x2 * width;
+  const tipY = a.y2 * height;
+  const angle = Math.atan2(tipY - a.y * height, tipX - a.x * width);
+  const spread = Math.PI / 7;
+  return [
+    [tipX, tipY],
+    [tipX - metrics.headSize * Math.cos(angle - spread), tipY - metrics.headSize * Math.sin(angle - spread)],
+    [tipX - metrics.headSize * Math.cos(angle + spread), tipY - metrics.headSize * Math.sin(angle + spread)]
+  ];
+};
+
+/**
+ * Paints annotations onto a canvas already holding the image at width x height.
+ */
+export const drawAnnotations = (ctx: CanvasRenderingContext2D, annotations: Annotation[], width: number, height: number) => {
+  const metrics = getAnnotationMetrics(width);
+  const numbers = getCalloutNumbers(annotations);
+  ctx.save();
+  ctx.font = getAnnotationFont(metrics);
+  ctx.textBaseline = 'top';
+  ctx.lineCap = ctx.lineJoin = 'round';
+
+  annotations.forEach(a => {
+    ctx.strokeStyle = ctx.fillStyle = a.color;
+    ctx.lineWidth = metrics.stroke;
+    ctx.globalAlpha = 1;
+
+    switch (a.kind) {
+      case 'arrow': {
+        const head = getArrowHead(a, width, height, metrics);
+        ctx.beginPath();
+        ctx.moveTo(a.x * width, a.y * height);
+        ctx.lineTo(a.x2 * width, a.y2 * height);
+        ctx.stroke();
+        ctx.beginPath();
+        head.forEach(([px, py], i) => i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py));
+        ctx.closePath();
+        ctx.fill();
+        break;
+      }
+      case 'highlight': {
+        ctx.globalAlpha = 0.3;
+        ctx.fillRect(Math.min(a.x, a.x2) * width, Math.min(a.y, a.y2) * height, Math.abs(a.x2 - a.x) * width, Math.abs(a.y2 - a.y) * height);
+        break;
+      }
+      case 'text': {
+        const box = getTextBoxLayout(a, width, height, metrics);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+        ctx.fillRect(box.left, box.top, box.width, box.height);
+        ctx.strokeRect(box.left, box.top, box.width, box.height);
+        ctx.fillStyle = a.color;
+        box.lines.forEach((line, i) => ctx.fillText(line, box.left + metrics.padding, box.top + metrics.padding + i * metrics.lineHeight));
+        break;
+      }
+      case 'callout': {
+        const cx = a.x * width;
+        const cy = a.y * height;
+        ctx.beginPath();
+        ctx.arc(cx, cy, metrics.calloutRadius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(numbers.get(a.id) || ''), cx, cy);
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+
+        const label = getCalloutLabelLayout(a, width, height, metrics);
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = metrics.stroke * 1.5;
+        ctx.fillStyle = a.color;
+        label.lines.forEach((line, i) => {
+          const y = label.top + i * metrics.lineHeight;
+          ctx.strokeText(line, label.left, y);
+          ctx.fillText(line, label.left, y);
+        });
+        break;
+      }
+    }
+  });
+  ctx.restore();
+};
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BatchItem, ComplexityLevel, Language, VisualStyle } from '../types';
+
+export const COMPLEXITY_LEVELS: ComplexityLevel[] = ['Elementary', 'High School', 'College', 'Expert'];
+export const VISUAL_STYLES: VisualStyle[] = ['Default', 'Minimalist', 'Realistic', 'Cartoon', 'Vintage', 'Futuristic', '3D Render', 'Sketch'];
+export const LANGUAGES: Language[] = ['English', 'Spanish', 'French', 'German', 'Mandarin', 'Japanese', 'Hindi', 'Arabic', 'Portuguese', 'Russian'];
+
+const COLUMNS = ['topic', 'level', 'style', 'language'] as const;
+type Column = typeof COLUMNS[number];
+
+export interface BatchDefaults {
+  level: ComplexityLevel;
+  style: VisualStyle;
+  language: Language;
+}
+
+/**
+ * Splits one CSV line into fields, honouring double-quoted fields and "" escapes.
+ */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else current += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+// Case-insensitive lookup so "high school" or "SPANISH" in a spreadsheet still match
+const matchOption = <T extends string>(value: string | undefined, options: T[]): T | undefined => {
+  if (!value) return undefined;
+  return options.find(option => option.toLowerCase() === value.toLowerCase());
+};
+
+// Without a header, a topic like "Rome, Italy" is one topic; commas only split columns when quoted
+// or when the second column is a complexity level, as in the documented column order
+const looksLikeCsv = (line: string) => {
+  const fields = splitCsvLine(line);
+  return line.includes('"') || (fields.length > 1 && !!matchOption(fields[1], COMPLEXITY_LEVELS));
+};
+
+/**
+ * Parses a pasted list (one topic per line) or a CSV with topic, level, style and language columns.
+ * A header row is optional; without one, columns are read in that order if the rows look like CSV,
+ * and otherwise each whole line is a topic.
+ * Unknown values fall back to the defaults and are reported as issues rather than dropping the row.
+ * Row numbers in issues are line numbers in the pasted text.
+ */
+export const parseBatchInput = (text: string, defaults: BatchDefaults): { items: BatchItem[], issues: string[] } => {
+  const lines = text.split(/\r?\n/)
+    .map((line, index) => ({ line, row: index + 1 }))
+    .filter(({ line }) => line.trim().length > 0);
+  const issues: string[] = [];
+  if (lines.length === 0) return { items: [], issues };
+
+  let columns: Column[] = [...COLUMNS];
+  const headerFields = splitCsvLine(lines[0].line).map(field => field.toLowerCase());
+  const hasHeader = headerFields.includes('topic');
+  if (hasHeader) {
+    columns = headerFields as Column[];
+    lines.shift();
+  }
+  const isCsv = hasHeader || lines.some(({ line }) => looksLikeCsv(line));
+
+  const items: BatchItem[] = [];
+  lines.forEach(({ line, row }) => {
+    const fields = isCsv ? splitCsvLine(line) : [line.trim()];
+    const read = (column: Column) => {
+      const position = columns.indexOf(column);
+      return position === -1 ? undefined : fields[position];
+    };
+
+    const topic = read('topic');
+    if (!topic) {
+      issues.push(`Row ${row}: missing topic, skipped`);
+      return;
+    }
+
+    const pick = <T extends string>(column: Column, options: T[], fallback: T): T => {
+      const raw = read(column);
+      const match = matchOption(raw, options);
+      if (raw && !match) issues.push(`Row ${row}: unknown ${column} "${raw}", using ${fallback}`);
+      return match || fallback;
+    };
+
+    items.push({
+      id: `${Date.now()}-${row}`,
+      topic,
+      level: pick('level', COMPLEXITY_LEVELS, defaults.level),
+      style: pick('style', VISUAL_STYLES, defaults.style),
+      language: pick('language', LANGUAGES, defaults.language),
+      status: 'queued'
+    });
+  });
+  return { items, issues };
+};
+
+/**
+ * Runs worker over items with at most `limit` in flight. The worker is expected to handle its own errors.
+ * Stops picking up new items once the signal aborts; items already running finish or abort on their own.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+};
@@ -2,11 +2,49 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GeneratedImage } from '../types';
+import { CitedFact, GeneratedImage, VideoJob } from '../types';
 
 const DB_NAME = 'InfoGeniusDB';
 const STORE_NAME = 'saved_images';
-const DB_VERSION = 1;
+const VIDEO_JOB_STORE = 'video_jobs';
+const VIDEO_BLOB_STORE = 'video_blobs';
+const VERSION_TREE_STORE = 'version_trees';
+const DB_VERSION = 3;
+
+const upgradeDB = (event: IDBVersionChangeEvent) => {
+  const db = (event.target as IDBOpenDBRequest).result;
+  if (!db.objectStoreNames.contains(STORE_NAME)) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(VIDEO_JOB_STORE)) {
+    db.createObjectStore(VIDEO_JOB_STORE, { keyPath: 'imageId' });
+  }
+  if (!db.objectStoreNames.contains(VIDEO_BLOB_STORE)) {
+    db.createObjectStore(VIDEO_BLOB_STORE, { keyPath: 'imageId' });
+  }
+  if (!db.objectStoreNames.contains(VERSION_TREE_STORE)) {
+    db.createObjectStore(VERSION_TREE_STORE, { keyPath: 'rootId' });
+  }
+};
+
+// Every open carries the upgrade handler, so callers racing initDB still get the current schema
+const openDB = (): IDBOpenDBRequest => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = upgradeDB;
+  return request;
+};
+
+/**
+ * Upgrades records saved by older versions of the app (e.g. facts stored as plain strings).
+ */
+const normalizeSavedImage = (image: GeneratedImage): GeneratedImage => {
+  const facts = image.facts as unknown as (string | CitedFact)[] | undefined;
+  if (!facts) return image;
+  return {
+    ...image,
+    facts: facts.map(f => typeof f === 'string' ? { text: f, sourceIndices: [], sourceUrls: [] } : f)
+  };
+};
 
 export const initDB = (): Promise<void> => {
   return new Promise((resolve, reject) => {
@@ -14,29 +52,23 @@ export const initDB = (): Promise<void> => {
       reject("IndexedDB not supported");
       return;
     }
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = openDB();
 
     request.onerror = () => reject('Error opening database');
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
-    };
-
     request.onsuccess = () => resolve();
   });
 };
 
 export const saveImageToDB = (image: GeneratedImage): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = openDB();
     request.onsuccess = () => {
       const db = request.result;
       const transaction = db.transaction(STORE_NAME, 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const putRequest = store.put(image);
+      // Object URLs do not survive a reload; the MP4 itself lives in the video blob store
+      const putRequest = store.put({ ...image, videoUri: undefined });
       putRequest.onsuccess = () => resolve();
       putRequest.onerror = () => reject('Error saving image');
     };
@@ -46,14 +78,14 @@ export const saveImageToDB = (image: GeneratedImage): Promise<void> => {
 
 export const removeImageFromDB = (id: string): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = openDB();
     request.onsuccess = () => {
       const db = request.result;
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const deleteRequest = store.delete(id);
-      deleteRequest.onsuccess = () => resolve();
-      deleteRequest.onerror = () => reject('Error deleting image');
+      const transaction = db.transaction([STORE_NAME, VIDEO_BLOB_STORE], 'readwrite');
+      transaction.objectStore(STORE_NAME).delete(id);
+      transaction.objectStore(VIDEO_BLOB_STORE).delete(id);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject('Error deleting image');
     };
     request.onerror = () => reject('Error opening DB for delete');
   });
@@ -61,15 +93,112 @@ export const removeImageFromDB = (id: string): Promise<void> => {
 
 export const getAllSavedImages = (): Promise<GeneratedImage[]> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = openDB();
     request.onsuccess = () => {
       const db = request.result;
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const getAllRequest = store.getAll();
-      getAllRequest.onsuccess = () => resolve(getAllRequest.result);
-      getAllRequest.onerror = () => reject('Error fetching images');
+      const transaction = db.transaction([STORE_NAME, VIDEO_BLOB_STORE], 'readonly');
+      const imagesRequest = transaction.objectStore(STORE_NAME).getAll();
+      const videosRequest = transaction.objectStore(VIDEO_BLOB_STORE).getAll();
+      transaction.oncomplete = () => {
+        const videos = new Map<string, Blob>(videosRequest.result.map((record: VideoBlobRecord) => [record.imageId, record.blob]));
+        resolve(imagesRequest.result.map((image: GeneratedImage) => {
+          const video = videos.get(image.id);
+          return normalizeSavedImage(video ? { ...image, videoUri: URL.createObjectURL(video) } : image);
+        }));
+      };
+      transaction.onerror = () => reject('Error fetching images');
     };
     request.onerror = () => reject('Error opening DB for fetch');
   });
 };
+
+interface VideoBlobRecord {
+  imageId: string;
+  blob: Blob;
+}
+
+/**
+ * Runs a single request against one store and resolves with its result.
+ */
+const runStoreRequest = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest,
+  errorMessage: string
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const request = openDB();
+    request.onsuccess = () => {
+      const db = request.result;
+      const transaction = db.transaction(storeName, mode);
+      const storeRequest = makeRequest(transaction.objectStore(storeName));
+      storeRequest.onsuccess = () => resolve(storeRequest.result as T);
+      storeRequest.onerror = () => reject(errorMessage);
+    };
+    request.onerror = () => reject('Error opening DB');
+  });
+};
+
+export const saveVideoJob = (job: VideoJob): Promise<void> =>
+  runStoreRequest(VIDEO_JOB_STORE, 'readwrite', store => store.put(job), 'Error saving video job');
+
+export const removeVideoJob = (imageId: string): Promise<void> =>
+  runStoreRequest(VIDEO_JOB_STORE, 'readwrite', store => store.delete(imageId), 'Error deleting video job');
+
+export const getAllVideoJobs = (): Promise<VideoJob[]> =>
+  runStoreRequest(VIDEO_JOB_STORE, 'readonly', store => store.getAll(), 'Error fetching video jobs');
+
+export const saveVideoBlob = (imageId: string, blob: Blob): Promise<void> =>
+  runStoreRequest(VIDEO_BLOB_STORE, 'readwrite', store => store.put({ imageId, blob } as VideoBlobRecord), 'Error saving video');
+
+export const getVideoBlob = async (imageId: string): Promise<Blob | undefined> => {
+  const record = await runStoreRequest<VideoBlobRecord | undefined>(VIDEO_BLOB_STORE, 'readonly', store => store.get(imageId), 'Error fetching video');
+  return record?.blob;
+};
+
+interface VersionTreeRecord {
+  rootId: string;
+  versions: GeneratedImage[];
+}
+
+/**
+ * Stores every version descending from rootId, so a saved item can be reopened with its edit history.
+ */
+export const saveVersionTree = (rootId: string, versions: GeneratedImage[]): Promise<void> =>
+  runStoreRequest(VERSION_TREE_STORE, 'readwrite', store => store.put({
+    rootId,
+    versions: versions.map(version => ({ ...version, videoUri: undefined }))
+  } as VersionTreeRecord), 'Error saving version tree');
+
+export const getVersionTree = async (rootId: string): Promise<GeneratedImage[]> => {
+  const record = await runStoreRequest<VersionTreeRecord | undefined>(VERSION_TREE_STORE, 'readonly', store => store.get(rootId), 'Error fetching version tree');
+  return (record?.versions || []).map(normalizeSavedImage);
+};
+
+export const removeVersionTree = (rootId: string): Promise<void> =>
+  runStoreRequest(VERSION_TREE_STORE, 'readwrite', store => store.delete(rootId), 'Error deleting version tree');
+
+/**
+ * Drops stored MP4s that belong to neither a saved infographic nor a pending job.
+ * Unsaved history does not survive a reload, so its videos are unreachable.
+ */
+export const pruneOrphanedVideos = (): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = openDB();
+    request.onsuccess = () => {
+      const db = request.result;
+      const transaction = db.transaction([STORE_NAME, VIDEO_JOB_STORE, VIDEO_BLOB_STORE], 'readwrite');
+      const imageKeys = transaction.objectStore(STORE_NAME).getAllKeys();
+      const jobKeys = transaction.objectStore(VIDEO_JOB_STORE).getAllKeys();
+      const blobStore = transaction.objectStore(VIDEO_BLOB_STORE);
+      const blobKeys = blobStore.getAllKeys();
+      blobKeys.onsuccess = () => {
+        const keep = new Set([...imageKeys.result, ...jobKeys.result].map(String));
+        blobKeys.result.forEach(key => { if (!keep.has(String(key))) blobStore.delete(key); });
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject('Error pruning videos');
+    };
+    request.onerror = () => reject('Error opening DB for prune');
+  });
+};
@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ImageDescription } from '../types';
+
+/**
+ * The long description as plain text, for embedding in exported files.
+ */
+export const formatLongDescription = (description: ImageDescription): string => {
+  const parts = [description.summary];
+  description.sections.forEach(section => parts.push(`${section.heading}: ${section.text}`));
+  if (description.data.length > 0) parts.push(`Data: ${description.data.join('; ')}`);
+  if (description.relationships.length > 0) parts.push(`Relationships: ${description.relationships.join('; ')}`);
+  return parts.filter(part => part.trim()).join('\n\n');
+};
+
+export const emptyDescription = (): ImageDescription => ({ altText: '', summary: '', sections: [], data: [], relationships: [] });
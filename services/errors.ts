@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type GenerationErrorKind = 'auth' | 'quota' | 'safety' | 'malformed' | 'network' | 'timeout' | 'cancelled' | 'unknown';
+
+// Only these are worth retrying automatically; the rest need the user to change something
+const TRANSIENT_KINDS: GenerationErrorKind[] = ['quota', 'network', 'timeout'];
+
+/**
+ * Error shared by every service call, classified so the UI can react without parsing messages.
+ */
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  status?: number;
+  cause?: unknown;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { status?: number, cause?: unknown } = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+const classify = (status: number | undefined, message: string): GenerationErrorKind => {
+  const text = message.toLowerCase();
+  if (status === 401 || status === 403 || status === 404 || text.includes('requested entity was not found') || text.includes('api key')) return 'auth';
+  if (status === 429 || text.includes('resource_exhausted') || text.includes('quota') || text.includes('rate limit')) return 'quota';
+  if (text.includes('safety') || text.includes('prohibited') || text.includes('blocked')) return 'safety';
+  if (status === 504 || text.includes('deadline') || text.includes('timed out') || text.includes('timeout')) return 'timeout';
+  if ((status !== undefined && status >= 500) || text.includes('failed to fetch') || text.includes('network')) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Normalizes anything thrown by an SDK, fetch or our own code into a GenerationError.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if ((error as { name?: unknown } | null)?.name === 'AbortError') {
+    return new GenerationError('cancelled', 'Operation cancelled', { cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const rawStatus = (error as { status?: unknown } | null)?.status;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+  return new GenerationError(classify(status, message), message, { status, cause: error });
+};
+
+/**
+ * User-facing explanation of what went wrong and what to do about it.
+ */
+export const getErrorMessage = (error: GenerationError): string => {
+  switch (error.kind) {
+    case 'auth': return "Access denied. Ensure you have a paid API key selected for these models.";
+    case 'quota': return "The model is rate-limited or your quota is used up. Wait a minute and retry, or check your billing limits.";
+    case 'safety': return "The request was blocked by safety filters. Try rephrasing the topic or edit instruction.";
+    case 'malformed': return "The model returned an unexpected response. Retrying usually fixes this.";
+    case 'network': return "Could not reach the model service. Check your connection and retry.";
+    case 'timeout': return "The request took too long to complete. Retry, or try a lower resolution.";
+    case 'cancelled': return "Operation cancelled.";
+    default: return error.message || 'An unexpected error occurred.';
+  }
+};
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs?: number; // per attempt; undefined means no limit
+  signal?: AbortSignal;
+}
+
+let retryDefaults: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  timeoutMs: 120000
+};
+
+/**
+ * Overrides the retry policy used by all service calls.
+ */
+export const setRetryOptions = (options: Partial<RetryOptions>) => {
+  retryDefaults = { ...retryDefaults, ...options };
+};
+
+const cancelledError = () => new GenerationError('cancelled', 'Operation cancelled');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelledError();
+};
+
+/**
+ * setTimeout as a promise that rejects with a cancelled GenerationError as soon as the signal aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const onAbort = () => { clearTimeout(timer); reject(cancelledError()); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Settles with the first of: the operation, the per-attempt timeout, or the abort signal
+const withTimeout = <T>(promise: Promise<T>, timeoutMs?: number, signal?: AbortSignal): Promise<T> => {
+  if (!timeoutMs && !signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const timer = timeoutMs ? setTimeout(() => finish(() => reject(new GenerationError('timeout', `Request timed out after ${timeoutMs}ms`))), timeoutMs) : undefined;
+    const onAbort = () => finish(() => reject(cancelledError()));
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      settle();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => finish(() => resolve(value)),
+      error => finish(() => reject(error))
+    );
+  });
+};
+
+/**
+ * Runs an operation, retrying transient failures with exponential backoff and jitter.
+ * Always rejects with a GenerationError; aborting the signal stops both the attempt and any pending backoff.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs, timeoutMs, signal } = { ...retryDefaults, ...options };
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await withTimeout(operation(), timeoutMs, signal);
+    } catch (error) {
+      if (signal?.aborted) throw cancelledError();
+      const generationError = toGenerationError(error);
+      if (!generationError.isTransient || attempt >= maxAttempts) throw generationError;
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+      console.warn(`Attempt ${attempt} failed (${generationError.kind}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
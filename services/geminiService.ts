@@ -3,8 +3,11 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { AspectRatio, ComplexityLevel, VisualStyle, ResearchResult, SearchResultItem, Language, VerificationResult, LatLng } from "../types";
+import { GenerateContentResponse, GenerateVideosOperation, GoogleGenAI, GroundingSupport, Modality, Type } from "@google/genai";
+import { AspectRatio, ImageResolution, ComplexityLevel, VisualStyle, CitedFact, ResearchPlan, ResearchResult, SearchResultItem, Language, VerificationResult, ClaimCheck, ClaimVerdict, LatLng, SeriesSection, TextOverlayItem, TextOverlayRole, FactHotspot, ExtractedTextBlock, DescriptionSection, ImageDescription } from "../types";
+import { GenerationProvider } from "./provider";
+import { parseResearchPlan, ResearchFormatError } from "./researchSchema";
+import { GenerationError, sleep, toGenerationError, withRetry } from "./errors";
 
 // Create a fresh client for every request to ensure the latest API key from process.env.API_KEY is used
 const getAi = () => {
@@ -21,13 +24,34 @@ const VISION_MODEL = 'gemini-3-pro-preview';
 const VEO_MODEL = 'veo-3.1-fast-generate-preview';
 const FLASH_MODEL = 'gemini-3-flash-preview';
 
+// Veo renders usually finish in 1-2 minutes; give up well after that instead of polling forever.
+// Measured from when the render started, so a resumed job keeps its original deadline.
+const VIDEO_POLL_INTERVAL_MS = 10000;
+const VIDEO_MAX_DURATION_MS = 6 * 60 * 1000;
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/**
+ * Throws a safety GenerationError when the prompt or the first candidate was blocked.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('safety', response.promptFeedback?.blockReasonMessage || `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new GenerationError('safety', `Response blocked: ${finishReason}`);
+  }
+};
+
 /**
  * Transcribes audio and extracts the topic and complexity level.
  */
-export const transcribeAndParseIntent = async (base64Audio: string): Promise<{ topic?: string, level?: string }> => {
+export const transcribeAndParseIntent = async (base64Audio: string, signal?: AbortSignal): Promise<{ topic?: string, level?: string }> => {
   const ai = getAi();
   try {
-    const response = await ai.models.generateContent({
+    const response = await withRetry(() => ai.models.generateContent({
       model: FLASH_MODEL,
       contents: {
         parts: [
@@ -36,6 +60,7 @@ export const transcribeAndParseIntent = async (base64Audio: string): Promise<{ t
         ]
       },
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -46,7 +71,7 @@ export const transcribeAndParseIntent = async (base64Audio: string): Promise<{ t
           required: ["topic", "level"]
         }
       }
-    });
+    }), { signal });
     return JSON.parse(response.text || "{}");
   } catch (error) {
     console.error("Transcription failed", error);
@@ -82,6 +107,73 @@ const getStyleInstruction = (style: VisualStyle): string => {
   }
 };
 
+const RESEARCH_PLAN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    facts: { type: Type.ARRAY, items: { type: Type.STRING } },
+    imagePrompt: { type: Type.STRING },
+    layoutHints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    keyTerms: { type: Type.ARRAY, items: { type: Type.STRING } },
+    confidence: { type: Type.NUMBER, description: "Between 0 and 1" }
+  },
+  required: ["facts", "imagePrompt", "layoutHints", "keyTerms", "confidence"]
+};
+
+/**
+ * Second pass for research replies that drifted from the requested JSON shape.
+ * Re-encodes the original reply with schema-constrained output; throws ResearchFormatError if that also fails.
+ */
+const repairResearchPlan = async (rawText: string, issues: string[], signal?: AbortSignal): Promise<ResearchPlan> => {
+  const response = await withRetry(() => getAi().models.generateContent({
+    model: FLASH_MODEL,
+    contents: {
+      parts: [{ text: `The following infographic research notes were supposed to be JSON but had these problems: ${issues.join('; ')}.\nRewrite them as JSON without adding new facts.\n\n${rawText}` }]
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: RESEARCH_PLAN_SCHEMA
+    }
+  }), { signal });
+  return parseResearchPlan(response.text || "");
+};
+
+const MIN_SEGMENT_WORDS = 4; // Shorter segments ("in 1969", "the Moon") share words with too many facts
+const MIN_CITATION_OVERLAP = 0.6;
+
+// Significant words only, so "the" and "of" don't make unrelated sentences look alike
+const wordsForMatch = (value: string) => new Set((value.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length > 2));
+
+/**
+ * Attaches grounding sources to each fact.
+ * A support backs a fact when most of the words of the shorter of the two appear in the other,
+ * which still holds after the repair pass has reworded a fact.
+ */
+const citeFacts = (
+  facts: string[],
+  supports: GroundingSupport[],
+  chunkToResultIndex: Map<number, number>,
+  searchResults: SearchResultItem[]
+): CitedFact[] => {
+  const segments = supports
+    .map(support => ({ support, words: wordsForMatch(support.segment?.text || '') }))
+    .filter(({ words }) => words.size >= MIN_SEGMENT_WORDS);
+  return facts.map(text => {
+    const fact = wordsForMatch(text);
+    const sourceIndices = new Set<number>();
+    segments.forEach(({ support, words }) => {
+      const shared = Array.from(words).filter(word => fact.has(word)).length;
+      if (fact.size === 0 || shared / Math.min(words.size, fact.size) < MIN_CITATION_OVERLAP) return;
+      (support.groundingChunkIndices || []).forEach(chunkIndex => {
+        const resultIndex = chunkToResultIndex.get(chunkIndex);
+        if (resultIndex !== undefined) sourceIndices.add(resultIndex);
+      });
+    });
+    const indices = Array.from(sourceIndices).sort((a, b) => a - b);
+    return { text, sourceIndices: indices, sourceUrls: indices.map(i => searchResults[i].url) };
+  });
+};
+
 /**
  * Researches a topic to create an infographic plan.
  * Uses Google Search and Maps Grounding.
@@ -91,7 +183,8 @@ export const researchTopicForPrompt = async (
   level: ComplexityLevel, 
   style: VisualStyle,
   language: Language,
-  userLocation?: LatLng
+  userLocation?: LatLng,
+  signal?: AbortSignal
 ): Promise<ResearchResult> => {
   
   const levelInstr = getLevelInstruction(level);
@@ -109,25 +202,26 @@ export const researchTopicForPrompt = async (
     ${styleInstr}
     Language: ${language}
     
-    Please provide your response in the following format:
-    
-    FACTS:
-    - [Fact 1]
-    - [Fact 2]
-    - [Fact 3]
-    
-    IMAGE_PROMPT:
-    [A highly detailed image generation prompt describing the visual composition, colors, and layout for the infographic.]
+    Respond with ONLY a JSON object (no markdown) with exactly these fields:
+    {
+      "facts": ["3-6 short, verifiable facts, written in ${language}"],
+      "imagePrompt": "A highly detailed image generation prompt describing the visual composition, colors, and layout for the infographic.",
+      "layoutHints": ["Short layout directions, e.g. 'timeline along the bottom'"],
+      "keyTerms": ["Important terms that should appear as labels"],
+      "confidence": 0.0 to 1.0 reflecting how well the sources support the facts
+    }
   `;
 
   try {
       const ai = getAi();
-      const response = await ai.models.generateContent({
+      const response = await withRetry(() => ai.models.generateContent({
         model: RESEARCH_MODEL,
         contents: {
           parts: [{ text: systemPrompt }]
         },
         config: {
+          abortSignal: signal,
+          // Structured output cannot be combined with grounding tools, so the JSON is validated client-side
           tools: [{ googleSearch: {} }, { googleMaps: {} }],
           toolConfig: {
             retrievalConfig: {
@@ -135,60 +229,133 @@ export const researchTopicForPrompt = async (
             }
           }
         },
-      });
+      }), { signal });
+      assertNotBlocked(response);
 
       const text = response.text || "";
-      
-      const factsMatch = text.match(/(?:^|\n)\**FACTS:?\**\s*([\s\S]*?)(?=(?:^|\n)\**IMAGE_PROMPT:?\**|$)/i);
-      const factsRaw = factsMatch ? factsMatch[1].trim() : "";
-      const facts = factsRaw.split('\n')
-        .map(f => f.replace(/^-\s*/, '').trim())
-        .filter(f => f.length > 0)
-        .slice(0, 5);
-
-      const promptMatch = text.match(/(?:^|\n)\**IMAGE_PROMPT:?\**\s*([\s\S]*?)$/i);
-      const imagePrompt = promptMatch ? promptMatch[1].trim() : `Create a detailed infographic about ${topic}. ${levelInstr} ${styleInstr}`;
+      let plan: ResearchPlan;
+      try {
+        plan = parseResearchPlan(text);
+      } catch (formatError) {
+        if (!(formatError instanceof ResearchFormatError)) throw formatError;
+        console.warn("Research response malformed, attempting repair:", formatError.issues);
+        plan = await repairResearchPlan(text, formatError.issues, signal);
+      }
 
+      const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
       const searchResults: SearchResultItem[] = [];
-      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      
-      if (chunks) {
-        chunks.forEach(chunk => {
-          if (chunk.web?.uri && chunk.web?.title) {
-            searchResults.push({ title: chunk.web.title, url: chunk.web.uri, isMap: false });
-          } else if (chunk.maps?.uri && chunk.maps?.title) {
-            searchResults.push({ title: chunk.maps.title, url: chunk.maps.uri, isMap: true });
-          }
-        });
-      }
+      // Maps each grounding chunk to its position in the deduplicated searchResults
+      const chunkToResultIndex = new Map<number, number>();
+      const resultIndexByUrl = new Map<string, number>();
 
-      const uniqueResults = Array.from(new Map(searchResults.map(item => [item.url, item])).values());
+      (groundingMetadata?.groundingChunks || []).forEach((chunk, chunkIndex) => {
+        let item: SearchResultItem | undefined;
+        if (chunk.web?.uri && chunk.web?.title) {
+          item = { title: chunk.web.title, url: chunk.web.uri, isMap: false };
+        } else if (chunk.maps?.uri && chunk.maps?.title) {
+          item = { title: chunk.maps.title, url: chunk.maps.uri, isMap: true };
+        }
+        if (!item) return;
+        if (!resultIndexByUrl.has(item.url)) {
+          resultIndexByUrl.set(item.url, searchResults.length);
+          searchResults.push(item);
+        }
+        chunkToResultIndex.set(chunkIndex, resultIndexByUrl.get(item.url)!);
+      });
+
+      const facts = citeFacts(plan.facts, groundingMetadata?.groundingSupports || [], chunkToResultIndex, searchResults);
 
       return {
-        imagePrompt: imagePrompt,
-        facts: facts,
-        searchResults: uniqueResults
+        ...plan,
+        facts,
+        searchResults
       };
   } catch (error) {
       console.error("Research failed:", error);
-      throw error;
+      throw toGenerationError(error);
+  }
+};
+
+const SERIES_MAX_SECTIONS = 6;
+
+const SERIES_SECTIONS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      focus: { type: Type.STRING }
+    },
+    required: ["title", "focus"]
+  }
+};
+
+/**
+ * Splits a broad topic into ordered sections for a multi-panel series.
+ */
+export const planSeriesSections = async (
+  topic: string,
+  level: ComplexityLevel,
+  language: Language,
+  signal?: AbortSignal
+): Promise<SeriesSection[]> => {
+  const prompt = `
+    Split the topic "${topic}" into 3-${SERIES_MAX_SECTIONS} ordered sections for a series of infographics.
+    Each section becomes one panel, so sections must not overlap and together must cover the topic.
+    ${getLevelInstruction(level)}
+    Write "title" (a few words) and "focus" (one sentence describing what the panel covers) in ${language}.
+  `;
+
+  try {
+      const response = await withRetry(() => getAi().models.generateContent({
+        model: FLASH_MODEL,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: SERIES_SECTIONS_SCHEMA
+        }
+      }), { signal });
+      assertNotBlocked(response);
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text || "[]");
+      } catch (parseError) {
+        throw new GenerationError('malformed', "Series plan was not valid JSON.", { cause: parseError });
+      }
+      const sections = (Array.isArray(parsed) ? parsed : [])
+        .filter((s): s is SeriesSection => typeof s?.title === 'string' && typeof s?.focus === 'string' && s.title.trim().length > 0)
+        .slice(0, SERIES_MAX_SECTIONS);
+      if (sections.length === 0) throw new GenerationError('malformed', "Series plan contained no sections.");
+      return sections;
+  } catch (error) {
+      console.error("Series planning failed:", error);
+      throw toGenerationError(error);
   }
 };
 
-export const generateInfographicImage = async (prompt: string): Promise<string> => {
+export const generateInfographicImage = async (
+  prompt: string,
+  aspectRatio: AspectRatio = '16:9',
+  resolution: ImageResolution = '1K',
+  signal?: AbortSignal
+): Promise<string> => {
   try {
-      const response = await getAi().models.generateContent({
+      const response = await withRetry(() => getAi().models.generateContent({
         model: IMAGE_MODEL,
         contents: {
           parts: [{ text: prompt }]
         },
         config: {
+            abortSignal: signal,
             imageConfig: {
-                aspectRatio: "16:9",
-                imageSize: "1K"
+                aspectRatio,
+                imageSize: resolution
             }
         }
-      });
+      }), { signal });
+      assertNotBlocked(response);
 
       const parts = response.candidates?.[0]?.content?.parts || [];
       for (const part of parts) {
@@ -196,22 +363,28 @@ export const generateInfographicImage = async (prompt: string): Promise<string>
               return `data:image/png;base64,${part.inlineData.data}`;
           }
       }
-      throw new Error("No image generated.");
+      throw new GenerationError('malformed', "No image generated.");
   } catch (error) {
       console.error("Image generation failed:", error);
-      throw error;
+      throw toGenerationError(error);
   }
 };
 
 /**
- * Generates a short explainer video using the Veo model.
+ * Starts a short explainer video render with the Veo model and returns its operation name.
+ * Veo only renders landscape or portrait, so square infographics are animated as 16:9.
  */
-export const generateCinematicSummary = async (topic: string, imageBase64: string): Promise<string> => {
+export const startCinematicSummary = async (
+  topic: string,
+  imageBase64: string,
+  aspectRatio: AspectRatio = '16:9',
+  signal?: AbortSignal
+): Promise<string> => {
   const ai = getAi();
   const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
 
   try {
-      let operation = await ai.models.generateVideos({
+      const operation = await withRetry(() => ai.models.generateVideos({
         model: VEO_MODEL,
         prompt: `A cinematic, documentary-style motion graphics video explaining ${topic}. High resolution, smooth transitions, educational atmosphere.`,
         image: {
@@ -219,38 +392,136 @@ export const generateCinematicSummary = async (topic: string, imageBase64: strin
             mimeType: 'image/png'
         },
         config: {
+            abortSignal: signal,
             numberOfVideos: 1,
             resolution: '720p',
-            aspectRatio: '16:9'
+            aspectRatio: aspectRatio === '9:16' ? '9:16' : '16:9'
         }
-      });
+      }), { signal });
+      if (!operation.name) throw new GenerationError('malformed', "Video generation did not return an operation.");
+      return operation.name;
+  } catch (error) {
+      console.error("Video generation failed:", error);
+      throw toGenerationError(error);
+  }
+};
+
+/**
+ * Polls a Veo operation (possibly started before a reload) until it finishes, then downloads the MP4.
+ */
+export const awaitCinematicSummary = async (operationName: string, startedAt: number, signal?: AbortSignal): Promise<Blob> => {
+  const ai = getAi();
+
+  try {
+      let operation = new GenerateVideosOperation();
+      operation.name = operationName;
+      operation = await withRetry(() => ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } }), { signal });
 
       while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
+        if (Date.now() - startedAt > VIDEO_MAX_DURATION_MS) {
+          throw new GenerationError('timeout', "Video generation did not finish in time.");
+        }
+        await sleep(VIDEO_POLL_INTERVAL_MS, signal);
+        const pending = operation;
+        operation = await withRetry(() => ai.operations.getVideosOperation({ operation: pending, config: { abortSignal: signal } }), { signal });
       }
 
+      if (operation.error) {
+        throw toGenerationError(new Error(String(operation.error.message || "Video generation failed.")));
+      }
       const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-      if (!downloadLink) throw new Error("Video generation failed to return a link.");
+      if (!downloadLink) throw new GenerationError('malformed', "Video generation failed to return a link.");
 
-      const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-      const blob = await response.blob();
-      return URL.createObjectURL(blob);
+      const response = await withRetry(async () => {
+        const res = await fetch(`${downloadLink}&key=${process.env.API_KEY}`, { signal });
+        if (!res.ok) throw new GenerationError(res.status >= 500 ? 'network' : 'auth', `Video download failed (${res.status})`, { status: res.status });
+        return res;
+      }, { signal });
+      return await response.blob();
   } catch (error) {
       console.error("Video generation failed:", error);
-      throw error;
+      throw toGenerationError(error);
   }
 };
 
+const CLAIM_VERDICTS: ClaimVerdict[] = ['correct', 'missing', 'contradicted', 'illegible'];
+
+const VERIFICATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "One or two sentences on the infographic's overall accuracy and legibility" },
+    claims: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          factIndex: { type: Type.INTEGER, description: "1-based number of the fact" },
+          verdict: { type: Type.STRING, enum: CLAIM_VERDICTS },
+          note: { type: Type.STRING, description: "What the image shows for this fact" },
+          x: { type: Type.NUMBER, description: "Left edge of the region this verdict refers to, as a fraction of image width" },
+          y: { type: Type.NUMBER, description: "Top edge as a fraction of image height" },
+          width: { type: Type.NUMBER, description: "Fraction of image width" },
+          height: { type: Type.NUMBER, description: "Fraction of image height" },
+          fix: { type: Type.STRING, description: "A specific edit instruction that would correct the image, unless the verdict is correct" }
+        },
+        required: ["factIndex", "verdict", "note"]
+      }
+    }
+  },
+  required: ["summary", "claims"]
+};
+
+const clampFraction = (value: unknown, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseClaimRegion = (claim: Record<string, unknown>): ClaimCheck['region'] => {
+  if (![claim.x, claim.y, claim.width, claim.height].every(v => typeof v === 'number' && isFinite(v))) return undefined;
+  const x = clampFraction(claim.x, 0);
+  const y = clampFraction(claim.y, 0);
+  const width = Math.min(1 - x, clampFraction(claim.width, 0));
+  const height = Math.min(1 - y, clampFraction(claim.height, 0));
+  return width > 0 && height > 0 ? { x, y, width, height } : undefined;
+};
+
+// One verdict from the model, or undefined if it does not name a known fact and verdict
+const parseClaim = (value: unknown, factCount: number): ClaimCheck | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { factIndex, note, fix } = value;
+  const verdict = CLAIM_VERDICTS.find(v => v === value.verdict);
+  if (typeof factIndex !== 'number' || !Number.isInteger(factIndex) || factIndex < 1 || factIndex > factCount || !verdict) return undefined;
+  return {
+    factIndex: factIndex - 1,
+    verdict,
+    note: typeof note === 'string' ? note.trim() : '',
+    region: parseClaimRegion(value),
+    fix: typeof fix === 'string' && fix.trim() && verdict !== 'correct' ? fix.trim() : undefined
+  };
+};
+
+/**
+ * Checks each fact against the image and returns a verdict per fact. The score is the share of
+ * facts depicted correctly, so it always agrees with the checklist.
+ */
 export const verifyInfographicAccuracy = async (
   imageBase64: string, 
-  facts: string[]
+  facts: string[],
+  signal?: AbortSignal
 ): Promise<VerificationResult> => {
   const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
-  const prompt = `Analyze this infographic. Facts: ${facts.join('; ')}. Check accuracy, legibility. Return JSON: {score, isAccurate, critique, suggestedFix}`;
+  const prompt = `
+    Check this infographic against each numbered fact below and give every fact one verdict:
+    "correct" if the image depicts or states it accurately, "missing" if the image does not show it,
+    "contradicted" if the image shows something that conflicts with it, or "illegible" if it is there but cannot be read.
+    For each fact, give the region of the image the verdict refers to as fractions of the image size (omit it for missing facts),
+    and for any verdict other than "correct", a specific edit instruction that would fix it.
+    ${facts.map((fact, index) => `${index + 1}. ${fact}`).join('\n')}
+  `;
 
   try {
-      const response = await getAi().models.generateContent({
+      const response = await withRetry(() => getAi().models.generateContent({
         model: VISION_MODEL,
         contents: {
           parts: [
@@ -258,54 +529,509 @@ export const verifyInfographicAccuracy = async (
             { text: prompt }
           ]
         },
-        config: { responseMimeType: "application/json" }
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: VERIFICATION_SCHEMA
+        }
+      }), { signal });
+      assertNotBlocked(response);
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text || "{}");
+      } catch (parseError) {
+        throw new GenerationError('malformed', "Verification response was not valid JSON.", { cause: parseError });
+      }
+      const report = isRecord(parsed) ? parsed : {};
+      const reported = new Map<number, ClaimCheck>();
+      (Array.isArray(report.claims) ? report.claims : []).forEach((value: unknown) => {
+        const claim = parseClaim(value, facts.length);
+        if (claim) reported.set(claim.factIndex, claim);
       });
+      if (reported.size === 0) throw new GenerationError('malformed', "Verification response contained no verdicts.");
 
-      const text = response.text || "{}";
-      const result = JSON.parse(text);
-      return { ...result, timestamp: Date.now() };
+      // A fact the model skipped was not found in the image
+      const claims = facts.map((_, index) => reported.get(index) || { factIndex: index, verdict: 'missing' as const, note: 'Not found in the image.' });
+      const correct = claims.filter(c => c.verdict === 'correct').length;
+      const fixes = claims.map(c => c.fix).filter((fix): fix is string => !!fix);
+      return {
+        score: Math.round((correct / claims.length) * 100),
+        isAccurate: correct === claims.length,
+        critique: typeof report.summary === 'string' ? report.summary.trim() : '',
+        suggestedFix: fixes.length > 0 ? fixes.join(' ') : undefined,
+        claims,
+        timestamp: Date.now()
+      };
   } catch (error) {
       console.error("Verification failed:", error);
-      throw error;
+      throw toGenerationError(error);
+  }
+};
+
+const TEXT_OVERLAY_ROLES: TextOverlayRole[] = ['title', 'label', 'fact'];
+const TEXT_ALIGNMENTS: TextOverlayItem['align'][] = ['left', 'center', 'right'];
+
+const TEXT_OVERLAY_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      role: { type: Type.STRING, enum: TEXT_OVERLAY_ROLES },
+      text: { type: Type.STRING },
+      x: { type: Type.NUMBER, description: "Left edge as a fraction of image width, 0-1" },
+      y: { type: Type.NUMBER, description: "Top edge as a fraction of image height, 0-1" },
+      width: { type: Type.NUMBER, description: "Available width as a fraction of image width, 0-1" },
+      align: { type: Type.STRING, enum: TEXT_ALIGNMENTS },
+      color: { type: Type.STRING, description: "Hex colour that contrasts with the background there" }
+    },
+    required: ["role", "text", "x", "y", "width", "align", "color"]
+  }
+};
+
+/**
+ * Lays out the title, labels and facts over a background rendered without text,
+ * placing each block in empty space next to what it describes.
+ */
+export const layoutTextOverlay = async (
+  imageBase64: string,
+  topic: string,
+  facts: string[],
+  language: Language,
+  signal?: AbortSignal
+): Promise<TextOverlayItem[]> => {
+  const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+  const prompt = `
+    This is the background of an infographic about "${topic}", drawn with almost no text.
+    Lay out its text in ${language}: one "title", short "label"s naming the main drawn elements, and each of these facts as a "fact":
+    ${facts.map((fact, index) => `${index + 1}. ${fact}`).join('\n')}
+    Place every block over empty or calm areas near what it refers to, never over important drawing, and without overlapping other blocks.
+    Give positions and widths as fractions of the image size and pick a text colour that contrasts with the background behind each block.
+  `;
+
+  try {
+      const response = await withRetry(() => getAi().models.generateContent({
+        model: VISION_MODEL,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: cleanBase64 } },
+            { text: prompt }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: TEXT_OVERLAY_SCHEMA
+        }
+      }), { signal });
+      assertNotBlocked(response);
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text || "[]");
+      } catch (parseError) {
+        throw new GenerationError('malformed', "Text layout was not valid JSON.", { cause: parseError });
+      }
+      const items = (Array.isArray(parsed) ? parsed : [])
+        .filter((item: unknown): item is Record<string, unknown> & { text: string } => isRecord(item) && typeof item.text === 'string' && item.text.trim().length > 0)
+        .map((item, index): TextOverlayItem => ({
+          id: `overlay-${index}`,
+          role: TEXT_OVERLAY_ROLES.find(role => role === item.role) || 'label',
+          text: item.text.trim(),
+          x: clampFraction(item.x, 0.05),
+          y: clampFraction(item.y, 0.05),
+          width: clampFraction(item.width, 0.3) || 0.3,
+          align: TEXT_ALIGNMENTS.find(align => align === item.align) || 'left',
+          color: typeof item.color === 'string' && /^#[0-9a-f]{6}$/i.test(item.color) ? item.color : '#0f172a'
+        }));
+      if (items.length === 0) throw new GenerationError('malformed', "Text layout contained no text.");
+      return items;
+  } catch (error) {
+      console.error("Text layout failed:", error);
+      throw toGenerationError(error);
   }
 };
 
-export const editInfographicImage = async (currentImageBase64: string, editInstruction: string): Promise<string> => {
+const FACT_HOTSPOTS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      factIndex: { type: Type.INTEGER, description: "1-based number of the fact" },
+      x: { type: Type.NUMBER, description: "Left edge as a fraction of image width, 0-1" },
+      y: { type: Type.NUMBER, description: "Top edge as a fraction of image height, 0-1" },
+      width: { type: Type.NUMBER, description: "Fraction of image width" },
+      height: { type: Type.NUMBER, description: "Fraction of image height" }
+    },
+    required: ["factIndex", "x", "y", "width", "height"]
+  }
+};
+
+/**
+ * Finds where each fact is depicted in the image. Facts the image does not show are left out.
+ */
+export const locateFacts = async (
+  imageBase64: string,
+  facts: string[],
+  signal?: AbortSignal
+): Promise<FactHotspot[]> => {
+  const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+  const prompt = `
+    For each numbered fact below, find the region of this infographic that depicts or states it and return its bounding box.
+    Give boxes as fractions of the image size. Leave out facts that the image does not show.
+    ${facts.map((fact, index) => `${index + 1}. ${fact}`).join('\n')}
+  `;
+
+  try {
+      const response = await withRetry(() => getAi().models.generateContent({
+        model: VISION_MODEL,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: cleanBase64 } },
+            { text: prompt }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: FACT_HOTSPOTS_SCHEMA
+        }
+      }), { signal });
+      assertNotBlocked(response);
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text || "[]");
+      } catch (parseError) {
+        throw new GenerationError('malformed', "Fact locations were not valid JSON.", { cause: parseError });
+      }
+      return (Array.isArray(parsed) ? parsed : [])
+        .filter((box: unknown): box is Record<string, unknown> & { factIndex: number } =>
+          isRecord(box) && typeof box.factIndex === 'number' && Number.isInteger(box.factIndex) && box.factIndex >= 1 && box.factIndex <= facts.length)
+        .map((box): FactHotspot => {
+          const x = clampFraction(box.x, 0);
+          const y = clampFraction(box.y, 0);
+          return {
+            factIndex: box.factIndex - 1,
+            x,
+            y,
+            width: Math.min(1 - x, clampFraction(box.width, 0.1)),
+            height: Math.min(1 - y, clampFraction(box.height, 0.1))
+          };
+        })
+        .filter(box => box.width > 0 && box.height > 0);
+  } catch (error) {
+      console.error("Fact location failed:", error);
+      throw toGenerationError(error);
+  }
+};
+
+const EXTRACTED_TEXT_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING, description: "The text exactly as written in the image" },
+      x: { type: Type.NUMBER, description: "Left edge as a fraction of image width, 0-1" },
+      y: { type: Type.NUMBER, description: "Top edge as a fraction of image height, 0-1" },
+      width: { type: Type.NUMBER, description: "Fraction of image width" },
+      height: { type: Type.NUMBER, description: "Fraction of image height" }
+    },
+    required: ["text", "x", "y", "width", "height"]
+  }
+};
+
+/**
+ * Reads back every piece of visible text with its bounding box. Text is transcribed as drawn,
+ * without correcting it, so spelling mistakes in the image survive into the result.
+ */
+export const extractText = async (
+  imageBase64: string,
+  signal?: AbortSignal
+): Promise<ExtractedTextBlock[]> => {
+  const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+  const prompt = `
+    Transcribe all visible text in this infographic: the title, headings, labels, numbers and captions.
+    Return one block per separate piece of text, in reading order, with its bounding box as fractions of the image size.
+    Copy every character exactly as drawn. Do not correct spelling, complete cut-off words or translate anything.
+  `;
+
+  try {
+      const response = await withRetry(() => getAi().models.generateContent({
+        model: VISION_MODEL,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: cleanBase64 } },
+            { text: prompt }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: EXTRACTED_TEXT_SCHEMA
+        }
+      }), { signal });
+      assertNotBlocked(response);
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text || "[]");
+      } catch (parseError) {
+        throw new GenerationError('malformed', "Extracted text was not valid JSON.", { cause: parseError });
+      }
+      return (Array.isArray(parsed) ? parsed : [])
+        .filter((block: unknown): block is Record<string, unknown> & { text: string } => isRecord(block) && typeof block.text === 'string' && block.text.trim().length > 0)
+        .map((block): ExtractedTextBlock => {
+          const x = clampFraction(block.x, 0);
+          const y = clampFraction(block.y, 0);
+          return {
+            text: block.text.trim(),
+            x,
+            y,
+            width: Math.min(1 - x, clampFraction(block.width, 0)),
+            height: Math.min(1 - y, clampFraction(block.height, 0))
+          };
+        });
+  } catch (error) {
+      console.error("Text extraction failed:", error);
+      throw toGenerationError(error);
+  }
+};
+
+const DESCRIPTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    altText: { type: Type.STRING, description: "One sentence of at most 125 characters saying what the image shows and its main point" },
+    summary: { type: Type.STRING, description: "Two or three sentences on the image's purpose and layout" },
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          heading: { type: Type.STRING },
+          text: { type: Type.STRING, description: "What this part of the image shows, including any text in it" }
+        },
+        required: ["heading", "text"]
+      }
+    },
+    data: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Each figure, value or labelled quantity shown" },
+    relationships: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Each flow, cause, comparison or grouping the image draws between its parts" }
+  },
+  required: ["altText", "summary", "sections", "data", "relationships"]
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim()) : [];
+
+const toSections = (value: unknown): DescriptionSection[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((section: unknown): section is { heading: string, text: string } => isRecord(section) && typeof section.heading === 'string' && typeof section.text === 'string')
+    .map(section => ({ heading: section.heading.trim(), text: section.text.trim() }));
+
+/**
+ * Describes the image for screen-reader users: short alt text plus a structured long description.
+ * The description is of what is drawn; the facts only help name things correctly.
+ */
+export const describeImage = async (
+  imageBase64: string,
+  topic: string,
+  facts: string[],
+  language: Language,
+  signal?: AbortSignal
+): Promise<ImageDescription> => {
+  const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+  const prompt = `
+    Describe this infographic about "${topic}" in ${language} for someone who cannot see it.
+    Write alt text, a short summary, then walk through its sections in reading order, list the data it shows and the relationships it draws.
+    Describe only what is actually in the image. These facts were meant to be in it and may help you name things:
+    ${facts.map((fact, index) => `${index + 1}. ${fact}`).join('\n')}
+  `;
+
+  try {
+      const response = await withRetry(() => getAi().models.generateContent({
+        model: VISION_MODEL,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: cleanBase64 } },
+            { text: prompt }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: DESCRIPTION_SCHEMA
+        }
+      }), { signal });
+      assertNotBlocked(response);
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text || "{}");
+      } catch (parseError) {
+        throw new GenerationError('malformed', "Image description was not valid JSON.", { cause: parseError });
+      }
+      const description = isRecord(parsed) ? parsed : {};
+      const altText = typeof description.altText === 'string' ? description.altText.trim() : '';
+      if (!altText) throw new GenerationError('malformed', "Image description had no alt text.");
+      return {
+        altText,
+        summary: typeof description.summary === 'string' ? description.summary.trim() : '',
+        sections: toSections(description.sections),
+        data: toStringList(description.data),
+        relationships: toStringList(description.relationships)
+      };
+  } catch (error) {
+      console.error("Image description failed:", error);
+      throw toGenerationError(error);
+  }
+};
+
+/**
+ * Answers a question about one region of an infographic, given a crop of that region and the facts the image presents.
+ */
+export const explainRegion = async (
+  cropBase64: string,
+  question: string,
+  topic: string,
+  facts: string[],
+  language: Language,
+  signal?: AbortSignal
+): Promise<string> => {
+  const cleanBase64 = cropBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+  const prompt = `
+    This is a crop from an infographic about "${topic}". The full infographic presents these facts:
+    ${facts.map((fact, index) => `${index + 1}. ${fact}`).join('\n')}
+    Question about the cropped region: "${question}"
+    Answer in ${language} in at most 3 sentences, based on what the crop shows and the facts above. Plain text only.
+  `;
+
+  try {
+      const response = await withRetry(() => getAi().models.generateContent({
+        model: VISION_MODEL,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: cleanBase64 } },
+            { text: prompt }
+          ]
+        },
+        config: { abortSignal: signal }
+      }), { signal });
+      assertNotBlocked(response);
+      const text = response.text?.trim();
+      if (!text) throw new GenerationError('malformed', "Region answer was empty.");
+      return text;
+  } catch (error) {
+      console.error("Region explanation failed:", error);
+      throw toGenerationError(error);
+  }
+};
+
+/**
+ * A short follow-up explanation of one fact, pitched at the image's level.
+ */
+export const expandOnFact = async (
+  topic: string,
+  fact: string,
+  level: ComplexityLevel,
+  language: Language,
+  signal?: AbortSignal
+): Promise<string> => {
+  const prompt = `
+    A student looking at an infographic about "${topic}" wants to know more about this fact: "${fact}".
+    ${getLevelInstruction(level)}
+    In ${language}, explain it in 3-4 sentences: why it is true and one related detail worth knowing. Plain text only.
+  `;
+
+  try {
+      const response = await withRetry(() => getAi().models.generateContent({
+        model: FLASH_MODEL,
+        contents: { parts: [{ text: prompt }] },
+        config: { abortSignal: signal }
+      }), { signal });
+      assertNotBlocked(response);
+      const text = response.text?.trim();
+      if (!text) throw new GenerationError('malformed', "Explanation was empty.");
+      return text;
+  } catch (error) {
+      console.error("Fact explanation failed:", error);
+      throw toGenerationError(error);
+  }
+};
+
+export const editInfographicImage = async (
+  currentImageBase64: string,
+  editInstruction: string,
+  aspectRatio: AspectRatio = '16:9',
+  maskBase64?: string,
+  signal?: AbortSignal
+): Promise<string> => {
   const mimeMatch = currentImageBase64.match(/^data:(image\/[a-zA-Z]+);base64,/);
   const mimeType = mimeMatch ? mimeMatch[1] : 'image/png';
   const cleanBase64 = currentImageBase64.replace(/^data:image\/[a-zA-Z]+;base64,/, '');
+  const maskParts = maskBase64 ? [
+    { inlineData: { mimeType: 'image/png', data: maskBase64.replace(/^data:image\/[a-zA-Z]+;base64,/, '') } },
+    { text: 'The second image is a mask. Apply the edit only inside its white area and keep everything in the black area exactly as it is.' }
+  ] : [];
   
   try {
-      const response = await getAi().models.generateContent({
+      const response = await withRetry(() => getAi().models.generateContent({
         model: EDIT_MODEL,
         contents: {
           parts: [
              { inlineData: { mimeType: mimeType, data: cleanBase64 } },
+             ...maskParts,
              { text: editInstruction }
           ]
+        },
+        config: {
+          abortSignal: signal,
+          imageConfig: { aspectRatio }
         }
-      });
+      }), { signal });
+      assertNotBlocked(response);
       const parts = response.candidates?.[0]?.content?.parts || [];
       for (const part of parts) {
           if (part.inlineData && part.inlineData.data) return `data:image/png;base64,${part.inlineData.data}`;
       }
-      throw new Error("Edit failed");
-  } catch (error) { throw error; }
+      throw new GenerationError('malformed', "Edit failed");
+  } catch (error) { throw toGenerationError(error); }
 };
 
-export const generateAudioNarration = async (topic: string, facts: string[], language: Language): Promise<string> => {
+export const generateAudioNarration = async (topic: string, facts: string[], language: Language, signal?: AbortSignal): Promise<string> => {
   const contentPrompt = `Narrate summary of ${topic} in ${language}. Facts: ${facts.join(', ')}. Clear documentary voice.`;
   try {
-      const response = await getAi().models.generateContent({
+      const response = await withRetry(() => getAi().models.generateContent({
         model: TTS_MODEL,
         contents: { parts: [{ text: contentPrompt }] },
         config: {
+          abortSignal: signal,
           responseModalities: [Modality.AUDIO],
           speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } } }
         }
-      });
+      }), { signal });
+      assertNotBlocked(response);
       const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
       if (data) return data;
-      throw new Error("Audio failed");
-  } catch (error) { throw error; }
+      throw new GenerationError('malformed', "Audio failed");
+  } catch (error) { throw toGenerationError(error); }
+};
+
+export const geminiProvider: GenerationProvider = {
+  name: 'gemini',
+  requiresApiKey: true,
+  transcribeAndParseIntent,
+  researchTopicForPrompt,
+  planSeriesSections,
+  generateInfographicImage,
+  editInfographicImage,
+  verifyInfographicAccuracy,
+  layoutTextOverlay,
+  locateFacts,
+  expandOnFact,
+  extractText,
+  describeImage,
+  explainRegion,
+  generateAudioNarration,
+  startCinematicSummary,
+  awaitCinematicSummary
 };
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Annotation, GeneratedImage, TextOverlayItem } from '../types';
+import { annotationsForPanel, drawAnnotations } from './annotations';
+import { buildOverlaySvg, drawTextOverlay } from './textOverlay';
+import { formatLongDescription } from './description';
+import { PNG_SIGNATURE, pngChunk } from './png';
+
+/**
+ * Loads a data URL (or any same-origin URL) into an HTMLImageElement.
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image'));
+    img.src = src;
+  });
+}
+
+/**
+ * Stacks images vertically into one PNG data URL, scaling each to the widest image.
+ */
+export async function stitchImagesVertically(sources: string[]): Promise<string> {
+  const images = await Promise.all(sources.map(loadImage));
+  const width = Math.max(...images.map(img => img.naturalWidth));
+  const heights = images.map(img => Math.round(img.naturalHeight * width / img.naturalWidth));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = heights.reduce((sum, h) => sum + h, 0);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  let y = 0;
+  images.forEach((img, index) => {
+    ctx.drawImage(img, 0, y, width, heights[index]);
+    y += heights[index];
+  });
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Draws the text overlay and then the annotation layer permanently into a copy of the image.
+ */
+export async function flattenLayers(src: string, textOverlay: TextOverlayItem[], annotations: Annotation[]): Promise<string> {
+  if (textOverlay.length === 0 && annotations.length === 0) return src;
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(img, 0, 0);
+  drawTextOverlay(ctx, textOverlay, canvas.width, canvas.height);
+  drawAnnotations(ctx, annotations, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * The PNG to export for an image: a series is exported as all of its panels stacked in order.
+ * Overlay text is always flattened in; annotations are too unless the user has hidden them.
+ */
+export async function getExportImage(image: GeneratedImage, includeAnnotations: boolean = true): Promise<string> {
+  const sources = image.panels && image.panels.length > 1 ? image.panels.map(panel => panel.data) : [image.data];
+  const layers = await Promise.all(sources.map((src, index) => flattenLayers(
+    src,
+    index === 0 ? image.textOverlay || [] : [],
+    includeAnnotations ? annotationsForPanel(image.annotations, index) : []
+  )));
+  const png = layers.length > 1 ? await stitchImagesVertically(layers) : layers[0];
+  return image.description ? addPngText(png, { Title: image.description.altText, Description: formatLongDescription(image.description) }) : png;
+}
+
+/**
+ * An SVG export that keeps overlay text as real text. Annotations are baked into the embedded background.
+ */
+export async function getExportSvg(image: GeneratedImage, includeAnnotations: boolean = true): Promise<string> {
+  const background = await flattenLayers(image.data, [], includeAnnotations ? annotationsForPanel(image.annotations, 0) : []);
+  const img = await loadImage(background);
+  const description = image.description && { title: image.description.altText, text: formatLongDescription(image.description) };
+  const svg = buildOverlaySvg(background, image.textOverlay || [], img.naturalWidth, img.naturalHeight, description);
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Embeds text entries (e.g. Title, Description) in a PNG data URL as iTXt chunks, which hold UTF-8,
+ * right after the header so image viewers and asset managers pick them up. Non-PNG input is returned unchanged.
+ */
+export function addPngText(dataUrl: string, entries: Record<string, string>): string {
+  const prefix = 'data:image/png;base64,';
+  if (!dataUrl.startsWith(prefix)) return dataUrl;
+  const binary = atob(dataUrl.slice(prefix.length));
+  const png = Uint8Array.from(binary, c => c.charCodeAt(0));
+  const IHDR_END = 8 + 25; // Signature, then IHDR: length, type, 13 data bytes, CRC
+
+  // Model output is labelled PNG whatever it really is, so check the bytes before splicing into them
+  const isPng = PNG_SIGNATURE.every((byte, i) => png[i] === byte);
+  const startsWithHeader = String.fromCharCode(...png.subarray(12, 16)) === 'IHDR';
+  if (png.length < IHDR_END || !isPng || !startsWithHeader) return dataUrl;
+
+  const encoder = new TextEncoder();
+  const chunks = Object.entries(entries).filter(([, text]) => text.trim()).map(([keyword, text]) => {
+    // keyword \0, no compression, no language tag or translated keyword, then the text
+    return pngChunk('iTXt', new Uint8Array([...encoder.encode(keyword), 0, 0, 0, 0, 0, ...encoder.encode(text)]));
+  });
+
+  const parts = [png.subarray(0, IHDR_END), ...chunks, png.subarray(IHDR_END)];
+  let out = '';
+  parts.forEach(part => { for (let i = 0; i < part.length; i += 0x8000) out += String.fromCharCode(...part.subarray(i, i + 0x8000)); });
+  return prefix + btoa(out);
+}
+
+/**
+ * Triggers a browser download of a data URL.
+ */
+export function downloadDataUrl(dataUrl: string, filename: string) {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = filename;
+  link.click();
+}
+
+export interface PixelDiff {
+  overlay: string; // Transparent PNG with changed pixels highlighted
+  changedRatio: number; // Share of pixels that differ, 0-1
+}
+
+/**
+ * Compares two images pixel by pixel at the size of the second one, marking pixels whose
+ * colour moved by more than threshold (0-255 summed channel distance / 3).
+ */
+export async function computePixelDiff(beforeSrc: string, afterSrc: string, threshold: number = 32): Promise<PixelDiff> {
+  const [before, after] = await Promise.all([beforeSrc, afterSrc].map(loadImage));
+  const width = after.naturalWidth;
+  const height = after.naturalHeight;
+
+  const readPixels = (img: HTMLImageElement) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  };
+  const a = readPixels(before).data;
+  const b = readPixels(after).data;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  const overlay = ctx.createImageData(width, height);
+
+  let changed = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const distance = (Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2])) / 3;
+    if (distance > threshold) {
+      changed++;
+      overlay.data[i] = 255;
+      overlay.data[i + 1] = 0;
+      overlay.data[i + 2] = 80;
+      overlay.data[i + 3] = 170;
+    }
+  }
+  ctx.putImageData(overlay, 0, 0);
+  return { overlay: canvas.toDataURL('image/png'), changedRatio: changed / (width * height) };
+}
+
+/**
+ * Converts a region mask (opaque where editable, transparent elsewhere) into the black and white
+ * image the edit model expects: white marks the region to change.
+ */
+export async function toBinaryMask(maskSrc: string): Promise<string> {
+  const mask = await loadImage(maskSrc);
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.naturalWidth;
+  canvas.height = mask.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(mask, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const value = pixels.data[i + 3] > 0 ? 255 : 0;
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = value;
+    pixels.data[i + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Pastes the masked region of an edited image onto the original, so every pixel outside
+ * the mask is exactly the original's. The edit is scaled to the original's size first.
+ */
+export async function compositeMaskedEdit(originalSrc: string, editedSrc: string, maskSrc: string): Promise<string> {
+  const [original, edited, mask] = await Promise.all([originalSrc, editedSrc, maskSrc].map(loadImage));
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const region = document.createElement('canvas');
+  region.width = width;
+  region.height = height;
+  const regionCtx = region.getContext('2d');
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!regionCtx || !ctx) throw new Error('Canvas 2D context unavailable');
+
+  regionCtx.drawImage(edited, 0, 0, width, height);
+  regionCtx.globalCompositeOperation = 'destination-in';
+  regionCtx.drawImage(mask, 0, 0, width, height);
+
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(region, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+export interface RegionBox {
+  x: number; // Fractions of the image size
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Crops a region out of an image, grown by padding (a fraction of the region size) on every side
+ * so the crop keeps some surrounding context.
+ */
+export async function cropImage(src: string, box: RegionBox, padding: number = 0): Promise<string> {
+  const img = await loadImage(src);
+  const left = Math.max(0, box.x - box.width * padding);
+  const top = Math.max(0, box.y - box.height * padding);
+  const right = Math.min(1, box.x + box.width * (1 + padding));
+  const bottom = Math.min(1, box.y + box.height * (1 + padding));
+
+  const sx = Math.round(left * img.naturalWidth);
+  const sy = Math.round(top * img.naturalHeight);
+  const sw = Math.max(1, Math.round((right - left) * img.naturalWidth));
+  const sh = Math.max(1, Math.round((bottom - top) * img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = sw;
+  canvas.height = sh;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+  return canvas.toDataURL('image/png');
+}
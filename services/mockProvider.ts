@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio, ImageResolution, CitedFact, ComplexityLevel, VisualStyle, ResearchResult, Language, VerificationResult, ClaimCheck, LatLng, SeriesSection, TextOverlayItem, FactHotspot, ExtractedTextBlock, ImageDescription } from '../types';
+import { encodeBase64 } from './audioUtils';
+import { PNG_SIGNATURE, pngChunk, writeUint32 } from './png';
+import { GenerationProvider } from './provider';
+import { GenerationError, sleep } from './errors';
+
+// Short artificial delay so loading states remain visible in demos
+const MOCK_LATENCY_MS = 400;
+
+/**
+ * Small deterministic string hash, used to derive stable colors from prompts.
+ */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1, b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+/**
+ * Encodes a solid-color RGB PNG with a darker horizontal band, using uncompressed deflate blocks.
+ * Pure TypeScript so it works without a canvas (e.g. under a test runner).
+ */
+const createPlaceholderPng = (width: number, height: number, rgb: [number, number, number]): string => {
+  const rowLength = width * 3 + 1;
+  const raw = new Uint8Array(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const inBand = y > height * 0.4 && y < height * 0.6;
+    raw[y * rowLength] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      const offset = y * rowLength + 1 + x * 3;
+      raw[offset] = inBand ? rgb[0] >> 1 : rgb[0];
+      raw[offset + 1] = inBand ? rgb[1] >> 1 : rgb[1];
+      raw[offset + 2] = inBand ? rgb[2] >> 1 : rgb[2];
+    }
+  }
+
+  // zlib stream made of stored (uncompressed) blocks of at most 65535 bytes
+  const blockCount = Math.max(1, Math.ceil(raw.length / 65535));
+  const zlib = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  zlib[0] = 0x78;
+  zlib[1] = 0x01;
+  let pos = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const start = i * 65535;
+    const len = Math.min(65535, raw.length - start);
+    zlib[pos++] = i === blockCount - 1 ? 1 : 0;
+    zlib[pos++] = len & 0xFF;
+    zlib[pos++] = (len >>> 8) & 0xFF;
+    zlib[pos++] = ~len & 0xFF;
+    zlib[pos++] = (~len >>> 8) & 0xFF;
+    zlib.set(raw.subarray(start, start + len), pos);
+    pos += len;
+  }
+  writeUint32(zlib, pos, adler32(raw));
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+
+  const parts = [PNG_SIGNATURE, pngChunk('IHDR', header), pngChunk('IDAT', zlib), pngChunk('IEND', new Uint8Array(0))];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => { png.set(part, offset); offset += part.length; });
+
+  return `data:image/png;base64,${encodeBase64(png)}`;
+};
+
+const PALETTE: [number, number, number][] = [
+  [6, 182, 212],
+  [99, 102, 241],
+  [245, 158, 11],
+  [16, 185, 129],
+  [236, 72, 153]
+];
+
+const PLACEHOLDER_SIZES: Record<AspectRatio, [number, number]> = {
+  '16:9': [160, 90],
+  '9:16': [90, 160],
+  '1:1': [120, 120]
+};
+
+const placeholderFor = (seed: string, aspectRatio: AspectRatio = '16:9') => {
+  const [width, height] = PLACEHOLDER_SIZES[aspectRatio];
+  return createPlaceholderPng(width, height, PALETTE[hashString(seed) % PALETTE.length]);
+};
+
+/**
+ * One second of 24kHz mono 16-bit silence, matching the shape of Gemini TTS output.
+ */
+const createSilentPcm = (): string => encodeBase64(new Uint8Array(24000 * 2));
+
+const transcribeAndParseIntent = async (_base64Audio: string, signal?: AbortSignal): Promise<{ topic?: string, level?: string }> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return { topic: 'Photosynthesis', level: 'High School' };
+};
+
+const researchTopicForPrompt = async (
+  topic: string,
+  level: ComplexityLevel,
+  style: VisualStyle,
+  language: Language,
+  _userLocation?: LatLng,
+  signal?: AbortSignal
+): Promise<ResearchResult> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const source = { title: `Mock source about ${topic}`, url: 'https://example.com/mock-source', isMap: false };
+  const cite = (text: string): CitedFact => ({ text, sourceIndices: [0], sourceUrls: [source.url] });
+  return {
+    imagePrompt: `Mock infographic about ${topic}. Audience: ${level}. Style: ${style}. Language: ${language}.`,
+    facts: [
+      cite(`${topic} is the subject of this offline mock infographic.`),
+      cite(`This content was prepared for a ${level} audience.`),
+      cite(`The visual style requested was ${style}.`)
+    ],
+    layoutHints: ['Title banner across the top', 'Three numbered panels left to right'],
+    keyTerms: [topic],
+    confidence: 1,
+    searchResults: [source]
+  };
+};
+
+const planSeriesSections = async (topic: string, _level: ComplexityLevel, _language: Language, signal?: AbortSignal): Promise<SeriesSection[]> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return ['Origins', 'Development', 'Legacy'].map(title => ({ title, focus: `The ${title.toLowerCase()} of ${topic}.` }));
+};
+
+const generateInfographicImage = async (prompt: string, aspectRatio?: AspectRatio, _resolution?: ImageResolution, signal?: AbortSignal): Promise<string> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return placeholderFor(prompt, aspectRatio);
+};
+
+const editInfographicImage = async (currentImageBase64: string, editInstruction: string, aspectRatio?: AspectRatio, _maskBase64?: string, signal?: AbortSignal): Promise<string> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return placeholderFor(`${currentImageBase64.length}:${editInstruction}`, aspectRatio);
+};
+
+// Roughly one fact in four fails, so the repair loop has something to do offline
+const MOCK_FAILURE_RATE = 4;
+
+/**
+ * Verdicts are derived from the image and the fact, so the same image always scores the same
+ * and every edit (a new placeholder) can pass or fail afresh.
+ */
+const verifyInfographicAccuracy = async (imageBase64: string, facts: string[], signal?: AbortSignal): Promise<VerificationResult> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const imageHash = hashString(imageBase64);
+  const claims = facts.map((fact, index): ClaimCheck => {
+    const region = { x: 0.05 + (index % 3) * 0.32, y: 0.2 + Math.floor(index / 3) * 0.3, width: 0.26, height: 0.22 };
+    return hashString(`${imageHash}:${fact}`) % MOCK_FAILURE_RATE === 0
+      ? { factIndex: index, verdict: 'contradicted', note: 'Mock verdict: the label does not match the fact.', region, fix: `Correct the label for fact ${index + 1} to read "${fact}".` }
+      : { factIndex: index, verdict: 'correct', note: 'Mock verdict.', region };
+  });
+  const correct = claims.filter(c => c.verdict === 'correct').length;
+  const fixes = claims.map(c => c.fix).filter((fix): fix is string => !!fix);
+  return {
+    score: facts.length > 0 ? Math.round((correct / facts.length) * 100) : 100,
+    isAccurate: correct === facts.length,
+    critique: `Mock verification checked ${facts.length} fact${facts.length !== 1 ? 's' : ''}.`,
+    suggestedFix: fixes.length > 0 ? fixes.join(' ') : undefined,
+    claims,
+    timestamp: Date.now()
+  };
+};
+
+// Title across the top, facts stacked down the left
+const layoutTextOverlay = async (_imageBase64: string, topic: string, facts: string[], _language: Language, signal?: AbortSignal): Promise<TextOverlayItem[]> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return [
+    { id: 'overlay-0', role: 'title', text: topic, x: 0.1, y: 0.05, width: 0.8, align: 'center', color: '#0f172a' },
+    ...facts.map((fact, index): TextOverlayItem => ({
+      id: `overlay-${index + 1}`, role: 'fact', text: fact, x: 0.05, y: 0.22 + index * 0.14, width: 0.4, align: 'left', color: '#0f172a'
+    }))
+  ];
+};
+
+// One box per fact in a simple grid
+const locateFacts = async (_imageBase64: string, facts: string[], signal?: AbortSignal): Promise<FactHotspot[]> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return facts.map((_fact, index) => ({
+    factIndex: index,
+    x: 0.05 + (index % 3) * 0.32,
+    y: 0.2 + Math.floor(index / 3) * 0.3,
+    width: 0.26,
+    height: 0.22
+  }));
+};
+
+const expandOnFact = async (topic: string, fact: string, _level: ComplexityLevel, _language: Language, signal?: AbortSignal): Promise<string> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return `Mock explanation of "${fact}" in the context of ${topic}.`;
+};
+
+// The mock image is a flat placeholder, so report a title and one deliberately misspelt label
+const extractText = async (_imageBase64: string, signal?: AbortSignal): Promise<ExtractedTextBlock[]> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return [
+    { text: 'Mock Infographic', x: 0.1, y: 0.05, width: 0.8, height: 0.08 },
+    { text: 'Mock labl', x: 0.05, y: 0.2, width: 0.26, height: 0.05 }
+  ];
+};
+
+const describeImage = async (_imageBase64: string, topic: string, facts: string[], _language: Language, signal?: AbortSignal): Promise<ImageDescription> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return {
+    altText: `Mock infographic about ${topic}.`,
+    summary: `A placeholder infographic titled "${topic}" presenting ${facts.length} fact${facts.length !== 1 ? 's' : ''}.`,
+    sections: facts.map((fact, index) => ({ heading: `Panel ${index + 1}`, text: fact })),
+    data: [],
+    relationships: []
+  };
+};
+
+const explainRegion = async (_cropBase64: string, question: string, topic: string, _facts: string[], _language: Language, signal?: AbortSignal): Promise<string> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return `Mock answer to "${question}" about this part of ${topic}.`;
+};
+
+const generateAudioNarration = async (_topic: string, _facts: string[], _language: Language, signal?: AbortSignal): Promise<string> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  return createSilentPcm();
+};
+
+// There is no offline video encoder, so animation fails up front instead of saving an empty clip
+const videoUnavailable = () => new GenerationError('unknown', 'Video is not available in offline mode. Use a Gemini API key to animate infographics.');
+
+const startCinematicSummary = async (_topic: string, _imageBase64: string, _aspectRatio?: AspectRatio, signal?: AbortSignal): Promise<string> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  throw videoUnavailable();
+};
+
+const awaitCinematicSummary = async (_operationName: string, _startedAt: number, signal?: AbortSignal): Promise<Blob> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  throw videoUnavailable();
+};
+
+export const mockProvider: GenerationProvider = {
+  name: 'mock',
+  requiresApiKey: false,
+  transcribeAndParseIntent,
+  researchTopicForPrompt,
+  planSeriesSections,
+  generateInfographicImage,
+  editInfographicImage,
+  verifyInfographicAccuracy,
+  layoutTextOverlay,
+  locateFacts,
+  expandOnFact,
+  extractText,
+  describeImage,
+  explainRegion,
+  generateAudioNarration,
+  startCinematicSummary,
+  awaitCinematicSummary
+};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio, ImageResolution, ComplexityLevel, VisualStyle, ResearchResult, Language, VerificationResult, LatLng, SeriesSection, TextOverlayItem, FactHotspot, ExtractedTextBlock, ImageDescription } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+/**
+ * Everything the app needs from a generation backend.
+ * The Gemini implementation lives in geminiService.ts; mockProvider.ts is an offline stand-in.
+ */
+export interface GenerationProvider {
+  name: string;
+  requiresApiKey: boolean;
+  // Every call takes an optional AbortSignal as its last argument and rejects with a 'cancelled' GenerationError when it fires
+  transcribeAndParseIntent: (base64Audio: string, signal?: AbortSignal) => Promise<{ topic?: string, level?: string }>;
+  researchTopicForPrompt: (
+    topic: string,
+    level: ComplexityLevel,
+    style: VisualStyle,
+    language: Language,
+    userLocation?: LatLng,
+    signal?: AbortSignal
+  ) => Promise<ResearchResult>;
+  // Splits a broad topic into ordered sections, each researched and rendered as its own panel
+  planSeriesSections: (topic: string, level: ComplexityLevel, language: Language, signal?: AbortSignal) => Promise<SeriesSection[]>;
+  generateInfographicImage: (prompt: string, aspectRatio?: AspectRatio, resolution?: ImageResolution, signal?: AbortSignal) => Promise<string>;
+  // maskBase64 is a black and white image; white marks the only region the edit may change
+  editInfographicImage: (currentImageBase64: string, editInstruction: string, aspectRatio?: AspectRatio, maskBase64?: string, signal?: AbortSignal) => Promise<string>;
+  verifyInfographicAccuracy: (imageBase64: string, facts: string[], signal?: AbortSignal) => Promise<VerificationResult>;
+  layoutTextOverlay: (imageBase64: string, topic: string, facts: string[], language: Language, signal?: AbortSignal) => Promise<TextOverlayItem[]>;
+  locateFacts: (imageBase64: string, facts: string[], signal?: AbortSignal) => Promise<FactHotspot[]>;
+  expandOnFact: (topic: string, fact: string, level: ComplexityLevel, language: Language, signal?: AbortSignal) => Promise<string>;
+  extractText: (imageBase64: string, signal?: AbortSignal) => Promise<ExtractedTextBlock[]>;
+  describeImage: (imageBase64: string, topic: string, facts: string[], language: Language, signal?: AbortSignal) => Promise<ImageDescription>;
+  explainRegion: (cropBase64: string, question: string, topic: string, facts: string[], language: Language, signal?: AbortSignal) => Promise<string>;
+  generateAudioNarration: (topic: string, facts: string[], language: Language, signal?: AbortSignal) => Promise<string>;
+  // Video is two-phase so a render can be persisted by operation name and resumed after a reload
+  startCinematicSummary: (topic: string, imageBase64: string, aspectRatio?: AspectRatio, signal?: AbortSignal) => Promise<string>;
+  awaitCinematicSummary: (operationName: string, startedAt: number, signal?: AbortSignal) => Promise<Blob>;
+}
+
+let activeProvider: GenerationProvider | null = null;
+
+// GENERATION_PROVIDER=mock (see vite.config.ts) runs the whole app without a Gemini key
+const resolveDefaultProvider = (): GenerationProvider => {
+  return process.env.GENERATION_PROVIDER === 'mock' ? mockProvider : geminiProvider;
+};
+
+export const getProvider = (): GenerationProvider => {
+  if (!activeProvider) activeProvider = resolveDefaultProvider();
+  return activeProvider;
+};
+
+/**
+ * Overrides the provider used by the app, e.g. to inject the mock in tests or demos.
+ */
+export const setProvider = (provider: GenerationProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ResearchPlan } from '../types';
+import { GenerationError } from './errors';
+
+/**
+ * Thrown when a research response cannot be turned into a valid ResearchPlan.
+ */
+export class ResearchFormatError extends GenerationError {
+  issues: string[];
+  rawText: string;
+
+  constructor(issues: string[], rawText: string) {
+    super('malformed', `Research response was malformed: ${issues.join('; ')}`);
+    this.name = 'ResearchFormatError';
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+/**
+ * Pulls the JSON object out of a model reply, tolerating markdown fences and surrounding prose.
+ */
+export const extractJsonObject = (text: string): unknown => {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+};
+
+const readStringList = (value: unknown, field: string, issues: string[], required: boolean): string[] => {
+  if (!Array.isArray(value)) {
+    issues.push(`"${field}" must be an array of strings`);
+    return [];
+  }
+  const items = value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(item => item.length > 0);
+  if (items.length !== value.length) issues.push(`"${field}" contains empty or non-string entries`);
+  if (required && items.length === 0) issues.push(`"${field}" must not be empty`);
+  return items;
+};
+
+/**
+ * Validates an untrusted value against the ResearchPlan shape.
+ * Returns the list of problems instead of throwing so callers can decide whether to repair.
+ */
+export const validateResearchPlan = (value: unknown): { plan?: ResearchPlan, issues: string[] } => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { issues: ['response is not a JSON object'] };
+  }
+  const candidate = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const facts = readStringList(candidate.facts, 'facts', issues, true);
+  const layoutHints = readStringList(candidate.layoutHints, 'layoutHints', issues, false);
+  const keyTerms = readStringList(candidate.keyTerms, 'keyTerms', issues, false);
+
+  const imagePrompt = typeof candidate.imagePrompt === 'string' ? candidate.imagePrompt.trim() : '';
+  if (!imagePrompt) issues.push('"imagePrompt" must be a non-empty string');
+
+  const confidence = candidate.confidence;
+  if (typeof confidence !== 'number' || Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+    issues.push('"confidence" must be a number between 0 and 1');
+  }
+
+  if (issues.length > 0) return { issues };
+  return { plan: { facts, imagePrompt, layoutHints, keyTerms, confidence: confidence as number }, issues };
+};
+
+/**
+ * Parses model text into a ResearchPlan, throwing ResearchFormatError if it does not validate.
+ */
+export const parseResearchPlan = (text: string): ResearchPlan => {
+  const { plan, issues } = validateResearchPlan(extractJsonObject(text));
+  if (!plan) throw new ResearchFormatError(issues, text);
+  return plan;
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ExtractedTextBlock } from '../types';
+
+/**
+ * A word in the image that is one or two letters away from a word in the facts,
+ * which almost always means the image model misspelt it.
+ */
+export interface SpellingIssue {
+  blockIndex: number; // Index into GeneratedImage.extractedText
+  found: string; // As written in the image
+  expected: string; // As written in the facts
+}
+
+const MIN_WORD_LENGTH = 4; // Shorter words are too often a different word one letter away
+
+const tokenize = (text: string): string[] => text.match(/\p{L}[\p{L}'’-]*/gu) || [];
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// "cell" and "cells" or "form" and "formed" are the same word, not a misspelling
+const isInflection = (a: string, b: string) => a.startsWith(b) || b.startsWith(a);
+
+// Longer words tolerate one more slip before they stop looking like a misspelling of the same word
+const maxDistanceFor = (word: string) => word.length >= 8 ? 2 : 1;
+
+/**
+ * Compares the words read from the image with the words of the facts (and topic). A word that is not
+ * in the facts but is within a letter or two of one of them is reported once, at its first block.
+ */
+export const findSpellingIssues = (blocks: ExtractedTextBlock[], referenceTexts: string[]): SpellingIssue[] => {
+  const vocabulary = new Map<string, string>();
+  referenceTexts.flatMap(tokenize).forEach(word => {
+    if (word.length >= MIN_WORD_LENGTH && !vocabulary.has(word.toLowerCase())) vocabulary.set(word.toLowerCase(), word);
+  });
+
+  const issues: SpellingIssue[] = [];
+  const reported = new Set<string>();
+  blocks.forEach((block, blockIndex) => {
+    tokenize(block.text).forEach(word => {
+      const lower = word.toLowerCase();
+      if (word.length < MIN_WORD_LENGTH || vocabulary.has(lower) || reported.has(lower)) return;
+      let expected: string | null = null;
+      let bestDistance = Infinity;
+      for (const [candidate, original] of vocabulary) {
+        if (Math.abs(candidate.length - lower.length) > maxDistanceFor(candidate) || isInflection(lower, candidate)) continue;
+        const distance = editDistance(lower, candidate);
+        if (distance <= maxDistanceFor(candidate) && distance < bestDistance) {
+          expected = original;
+          bestDistance = distance;
+        }
+      }
+      if (expected) {
+        reported.add(lower);
+        issues.push({ blockIndex, found: word, expected });
+      }
+    });
+  });
+  return issues;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so correcting "Cel" leaves "Cell" alone
+export const replaceWord = (text: string, found: string, replacement: string): string =>
+  text.replace(new RegExp(`(?<![\\p{L}'’-])${escapeRegExp(found)}(?![\\p{L}'’-])`, 'gu'), replacement);
+
+// Everything in the image as one string, for search
+export const getExtractedText = (blocks: ExtractedTextBlock[] | undefined): string =>
+  (blocks || []).map(block => block.text).join(' ');
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { TextOverlayItem, TextOverlayRole } from '../types';
+import { wrapText } from './annotations';
+
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+
+// Font size as a fraction of image width
+const ROLE_FONT_SCALE: Record<TextOverlayRole, number> = {
+  title: 0.042,
+  label: 0.022,
+  fact: 0.017
+};
+
+const ROLE_FONT_WEIGHT: Record<TextOverlayRole, number> = {
+  title: 800,
+  label: 700,
+  fact: 500
+};
+
+export interface OverlayItemLayout {
+  lines: string[];
+  fontSize: number;
+  lineHeight: number;
+  font: string;
+  anchorX: number; // x of the text anchor for the item's alignment
+  top: number;
+  height: number;
+  haloWidth: number;
+}
+
+/**
+ * Where and how one item is drawn in an image of width x height. The SVG editor, the PNG
+ * export and the SVG export all use this, so text wraps and sits identically in each.
+ */
+export const layoutOverlayItem = (item: TextOverlayItem, width: number, height: number): OverlayItemLayout => {
+  const fontSize = ROLE_FONT_SCALE[item.role] * width;
+  const font = `${ROLE_FONT_WEIGHT[item.role]} ${fontSize}px ${FONT_FAMILY}`;
+  const blockWidth = item.width * width;
+  const lineHeight = fontSize * 1.2;
+  const lines = wrapText(item.text, blockWidth, font);
+  const left = item.x * width;
+  const anchorX = item.align === 'center' ? left + blockWidth / 2 : item.align === 'right' ? left + blockWidth : left;
+  return { lines, fontSize, lineHeight, font, anchorX, top: item.y * height, height: lines.length * lineHeight, haloWidth: fontSize * 0.18 };
+};
+
+// Dark text gets a light halo and vice versa, so it stays legible over busy backgrounds
+export const getHaloColor = (color: string): string => {
+  const hex = color.replace('#', '');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return 'rgba(255,255,255,0.85)';
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return (r * 299 + g * 587 + b * 114) / 1000 > 128 ? 'rgba(0,0,0,0.6)' : 'rgba(255,255,255,0.85)';
+};
+
+const CANVAS_ALIGN: Record<TextOverlayItem['align'], CanvasTextAlign> = { left: 'left', center: 'center', right: 'right' };
+export const SVG_ANCHOR: Record<TextOverlayItem['align'], 'start' | 'middle' | 'end'> = { left: 'start', center: 'middle', right: 'end' };
+
+export const drawTextOverlay = (ctx: CanvasRenderingContext2D, items: TextOverlayItem[], width: number, height: number) => {
+  ctx.save();
+  ctx.textBaseline = 'top';
+  ctx.lineJoin = 'round';
+  items.forEach(item => {
+    const layout = layoutOverlayItem(item, width, height);
+    ctx.font = layout.font;
+    ctx.textAlign = CANVAS_ALIGN[item.align];
+    ctx.strokeStyle = getHaloColor(item.color);
+    ctx.lineWidth = layout.haloWidth;
+    ctx.fillStyle = item.color;
+    layout.lines.forEach((line, i) => {
+      const y = layout.top + i * layout.lineHeight;
+      ctx.strokeText(line, layout.anchorX, y);
+      ctx.fillText(line, layout.anchorX, y);
+    });
+  });
+  ctx.restore();
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+
+/**
+ * A standalone SVG document: the background as an embedded raster with the overlay as real, selectable text.
+ * A description becomes the document's title and desc, which screen readers announce.
+ */
+export const buildOverlaySvg = (backgroundSrc: string, items: TextOverlayItem[], width: number, height: number, description?: { title: string; text: string }): string => {
+  const texts = items.map(item => {
+    const layout = layoutOverlayItem(item, width, height);
+    const spans = layout.lines
+      .map((line, i) => `<tspan x="${layout.anchorX}" y="${layout.top + i * layout.lineHeight}">${escapeXml(line)}</tspan>`)
+      .join('');
+    return `<text style="font: ${layout.font}" fill="${escapeXml(item.color)}" stroke="${getHaloColor(item.color)}" stroke-width="${layout.haloWidth}" paint-order="stroke" stroke-linejoin="round" text-anchor="${SVG_ANCHOR[item.align]}" dominant-baseline="text-before-edge">${spans}</text>`;
+  });
+  const accessible = description
+    ? { attributes: ' role="img" aria-labelledby="title desc"', elements: `<title id="title">${escapeXml(description.title)}</title><desc id="desc">${escapeXml(description.text)}</desc>` }
+    : { attributes: '', elements: '' };
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"${accessible.attributes}>${accessible.elements}` +
+    `<image href="${backgroundSrc}" x="0" y="0" width="${width}" height="${height}"/>${texts.join('')}</svg>`;
+};
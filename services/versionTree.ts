@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage, VerificationResult } from '../types';
+
+export interface VersionNode {
+  image: GeneratedImage;
+  children: VersionNode[];
+}
+
+// Images saved before lineage was recorded are their own root
+export const getRootId = (image: GeneratedImage): string => image.rootId || image.id;
+
+export const getLineage = (images: GeneratedImage[], rootId: string): GeneratedImage[] =>
+  images.filter(image => getRootId(image) === rootId);
+
+/**
+ * Builds the edit tree for one root from a flat list of versions, oldest children first.
+ * A version whose parent is missing (e.g. never saved) is attached to the root so it stays reachable.
+ */
+export const buildVersionTree = (images: GeneratedImage[], rootId: string): VersionNode | null => {
+  const lineage = getLineage(images, rootId);
+  const root = lineage.find(image => image.id === rootId);
+  if (!root) return null;
+
+  const nodes = new Map<string, VersionNode>(lineage.map(image => [image.id, { image, children: [] }]));
+  lineage
+    .filter(image => image.id !== rootId)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(image => {
+      const parent = (image.parentId && nodes.get(image.parentId)) || nodes.get(rootId)!;
+      parent.children.push(nodes.get(image.id)!);
+    });
+  return nodes.get(rootId)!;
+};
+
+export const getSiblings = (images: GeneratedImage[], image: GeneratedImage): GeneratedImage[] =>
+  image.parentId ? images.filter(other => other.parentId === image.parentId && other.id !== image.id) : [];
+
+/**
+ * The chain of versions from the root down to image. Like the tree, a version whose parent
+ * is missing continues from the root.
+ */
+export const getAncestry = (images: GeneratedImage[], image: GeneratedImage): GeneratedImage[] => {
+  const byId = new Map(getLineage(images, getRootId(image)).map(version => [version.id, version]));
+  const chain = [image];
+  let current = image;
+  while (current.parentId) {
+    const parent = byId.get(current.parentId);
+    if (!parent || chain.includes(parent)) break;
+    chain.unshift(parent);
+    current = parent;
+  }
+  const root = byId.get(getRootId(image));
+  if (root && chain[0] !== root) chain.unshift(root);
+  return chain;
+};
+
+// The score at which a verification run counts as passing, in the library filter and the score trend
+export const PASS_SCORE = 90;
+
+// Results saved before every run was kept only have the latest one
+export const getVerificationRuns = (image: GeneratedImage): VerificationResult[] =>
+  image.verificationRuns || (image.verification ? [image.verification] : []);
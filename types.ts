@@ -5,6 +5,8 @@
 */
 export type AspectRatio = '16:9' | '9:16' | '1:1';
 
+export type ImageResolution = '1K' | '2K' | '4K';
+
 export type ComplexityLevel = 'Elementary' | 'High School' | 'College' | 'Expert';
 
 export type VisualStyle = 'Default' | 'Minimalist' | 'Realistic' | 'Cartoon' | 'Vintage' | 'Futuristic' | '3D Render' | 'Sketch';
@@ -14,15 +16,172 @@ export type Language = 'English' | 'Spanish' | 'French' | 'German' | 'Mandarin'
 export interface GeneratedImage {
   id: string;
   data: string; // Base64 image data URL
-  videoUri?: string; // Downloaded MP4 URL
+  videoUri?: string; // Object URL for the downloaded MP4; rebuilt from IndexedDB, never persisted
   prompt: string;
   timestamp: number;
   level?: ComplexityLevel;
   style?: VisualStyle;
   language?: Language;
-  facts?: string[];
+  aspectRatio?: AspectRatio;
+  resolution?: ImageResolution;
+  facts?: CitedFact[];
   originalTopic?: string;
-  verification?: VerificationResult;
+  verification?: VerificationResult; // Latest run
+  verificationRuns?: VerificationResult[]; // Every verification of this version, oldest first
+  approvedPlan?: ApprovedPlan; // Only set when the research plan was reviewed before rendering
+  variantGroupId?: string; // Shared by candidates rendered together from the same research
+  panels?: SeriesPanel[]; // Series mode: ordered panels; data and facts mirror the whole series
+  collection?: string; // Named library collection, set by batch runs
+  narrationAudio?: string; // Base64 PCM audio summary
+  rootId?: string; // Id of the original generation this version descends from
+  parentId?: string; // Version this one was edited from
+  editInstruction?: string; // Instruction that produced this version from its parent
+  annotations?: Annotation[]; // User-drawn vector layer, flattened into exports
+  textOverlay?: TextOverlayItem[]; // Overlay mode: real text laid over a background rendered without text
+  factHotspots?: FactHotspot[]; // Where each fact is depicted, for the interactive view
+  repairRun?: RepairRun; // Set on versions produced by an auto-repair run
+  extractedText?: ExtractedTextBlock[]; // Text actually visible in the image, as read back by the vision model
+  description?: ImageDescription; // Screen-reader text, generated from the image and editable
+}
+
+export interface DescriptionSection {
+  heading: string;
+  text: string;
+}
+
+/**
+ * What the image shows, for readers who cannot see it: a short alt text plus a long description
+ * that walks through its sections, the data it presents and how the parts relate.
+ */
+export interface ImageDescription {
+  altText: string;
+  summary: string;
+  sections: DescriptionSection[]; // In reading order
+  data: string[]; // Figures, values and labels shown
+  relationships: string[]; // Flows, causes, comparisons and groupings between parts
+  edited?: boolean; // Set once the user has changed it
+}
+
+/**
+ * One block of text read from the image, transcribed as written (misspellings included).
+ * The box is in fractions of the image size.
+ */
+export interface ExtractedTextBlock {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where the vision model found one of the image's facts depicted.
+ * The box is in fractions of the image size.
+ */
+export interface FactHotspot {
+  factIndex: number; // Index into GeneratedImage.facts
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  explanation?: string; // "Tell me more" answer, kept once fetched
+}
+
+export type TextOverlayRole = 'title' | 'label' | 'fact';
+
+/**
+ * One block of overlay text. Position and wrap width are fractions of the image size,
+ * taken from the layout the vision model proposed for the background.
+ */
+export interface TextOverlayItem {
+  id: string;
+  role: TextOverlayRole;
+  text: string;
+  x: number; // Left edge of the text block
+  y: number; // Top edge of the text block
+  width: number; // Wrap width
+  align: 'left' | 'center' | 'right';
+  color: string; // Chosen by the model to contrast with the background behind it
+}
+
+export type AnnotationKind = 'arrow' | 'callout' | 'highlight' | 'text';
+
+/**
+ * A user-drawn mark over the image. Coordinates are fractions of the image size (0-1),
+ * so annotations survive re-renders at another resolution.
+ */
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  x: number; // Arrow tail, callout centre, or box corner
+  y: number;
+  x2: number; // Arrow head or opposite box corner; equals x/y for callouts
+  y2: number;
+  text?: string; // Text box contents or callout label
+  color: string;
+  panelIndex?: number; // Series panel the annotation belongs to
+}
+
+/**
+ * One section of a topic that is too broad for a single image.
+ */
+export interface SeriesSection {
+  title: string;
+  focus: string; // What this panel should cover, used to scope its research
+}
+
+export interface SeriesPanel {
+  title: string;
+  data: string; // Base64 image data URL
+  facts: CitedFact[];
+}
+
+/**
+ * One of several renders of the same research, waiting for the user to pick.
+ * Verification is only present when the candidates were auto-ranked.
+ */
+export interface VariantCandidate {
+  image: GeneratedImage;
+  rank?: number; // 1 is the highest verification score
+}
+
+export type VideoJobStatus = 'pending' | 'failed';
+
+/**
+ * A Veo render persisted in IndexedDB so polling can resume after a reload.
+ * Finished jobs are removed once their MP4 is stored.
+ */
+export interface VideoJob {
+  imageId: string;
+  operationName: string;
+  status: VideoJobStatus;
+  image: GeneratedImage; // Snapshot, so the infographic can be restored alongside the video
+  createdAt: number;
+  error?: string;
+}
+
+export type BatchItemStatus = 'queued' | 'researching' | 'rendering' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  topic: string;
+  level: ComplexityLevel;
+  style: VisualStyle;
+  language: Language;
+  status: BatchItemStatus;
+  imageId?: string; // Library id of the saved result
+  error?: string;
+}
+
+export type ClaimVerdict = 'correct' | 'missing' | 'contradicted' | 'illegible';
+
+// The verdict on one fact, with where in the image it applies and how to fix it
+export interface ClaimCheck {
+  factIndex: number; // Index into GeneratedImage.facts
+  verdict: ClaimVerdict;
+  note: string;
+  region?: { x: number; y: number; width: number; height: number }; // Fractions of the image size
+  fix?: string; // An edit instruction that would correct this claim
 }
 
 export interface VerificationResult {
@@ -30,21 +189,61 @@ export interface VerificationResult {
   isAccurate: boolean;
   critique: string;
   suggestedFix?: string;
+  claims?: ClaimCheck[]; // Absent on results saved before claim-level checks
   timestamp: number;
 }
 
+// One verify-and-fix step of an auto-repair run
+export interface RepairStep {
+  imageId: string;
+  score: number;
+  fix?: string; // Fix applied to this version to produce the next step
+}
+
+export interface RepairRun {
+  threshold: number;
+  maxIterations: number;
+  steps: RepairStep[]; // The starting version first
+}
+
 export interface SearchResultItem {
   title: string;
   url: string;
   isMap?: boolean;
 }
 
-export interface ResearchResult {
-  imagePrompt: string;
+export interface ResearchPlan {
   facts: string[];
+  imagePrompt: string;
+  layoutHints: string[]; // e.g. "timeline along the bottom", "central cross-section"
+  keyTerms: string[];
+  confidence: number; // 0-1, model's self-reported confidence in the facts
+}
+
+export interface CitedFact {
+  text: string;
+  sourceIndices: number[]; // Indices into the searchResults returned with the fact
+  sourceUrls: string[];
+}
+
+export interface ResearchResult extends Omit<ResearchPlan, 'facts'> {
+  facts: CitedFact[];
   searchResults: SearchResultItem[];
 }
 
+/**
+ * The research plan as the user signed it off, kept on the image for auditing.
+ * Facts added during review have no sources.
+ */
+export interface ApprovedPlan {
+  facts: CitedFact[];
+  imagePrompt: string;
+  layoutHints: string[];
+  keyTerms: string[];
+  edited: boolean; // false when the plan was approved exactly as researched
+  approvedAt: number;
+}
+
 export interface LatLng {
   latitude: number;
   longitude: number;